@@ -5,11 +5,20 @@ import { type Peer } from '../core/types/config/Peer';
 import type { WebhookConfig } from '../core/types/config/Webhook';
 import yaml from 'yaml';
 import type { AuthConfig } from '../core/types/config/AuthConfig';
+import type { PeerTlsConfig } from '../core/types/config/PeerTls';
+import type { RetryConfig } from '../core/types/config/Retry';
+import type { LeaderElectionConfig } from '../core/types/config/LeaderElection';
+import type { PeerHealthConfig } from '../core/types/config/PeerHealth';
+import type { TracingConfig } from '../core/types/config/Tracing';
+import type { IdempotencyConfig } from '../core/types/config/Idempotency';
+import type { BulkTasksConfig } from '../core/types/config/BulkTasks';
+import type { TaskQueueConfig } from '../core/types/config/TaskQueue';
+import type { TaskJournalConfig } from '../core/types/config/TaskJournal';
 
 // Define a type for listener-specific settings, including batchSize
 type ListenerSpecificConfig = {
   [key: string]: unknown;
-  batchSize?: number; // Optional batch size per listener type
+  batchSize?: number; // Optional batch size per listener type, batches too large for one transaction are split further
 };
 
 /**
@@ -35,8 +44,27 @@ export type OracleConfigOptions = {
   listeners: Record<string, ListenerSpecificConfig>; // Updated type
   peers?: Peer[];
   peerTimeoutMs?: number;
+  /** Maximum age of a signed request from another node before it is rejected */
+  peerRequestMaxAgeMs?: number;
+  peerTls?: PeerTlsConfig;
+  /** How long a signature over prepared data stays valid, has to cover the whole signing phase */
+  preparedDataTtlMs?: number;
   minSignaturesRequired?: number;
   dataDirectory?: string;
+  retry?: Partial<RetryConfig>;
+  /** Bearer token for the admin API, which is disabled when not set */
+  adminApiKey?: string;
+  /** Elects the coordinating node among the candidates instead of relying on `primary` */
+  leaderElection?: LeaderElectionConfig;
+  peerHealth?: Partial<PeerHealthConfig>;
+  /** Exports task traces, disabled when neither a collector nor a file is set */
+  tracing?: TracingConfig;
+  idempotency?: Partial<IdempotencyConfig>;
+  bulkTasks?: Partial<BulkTasksConfig>;
+  taskQueue?: Partial<TaskQueueConfig>;
+  taskJournal?: Partial<TaskJournalConfig>;
+  /** Maximum estimated size of a signed transaction, larger ones fail with `tx_too_large` before signing */
+  maxTxBytes?: number;
 };
 
 /**
@@ -59,7 +87,21 @@ export class OracleConfig {
   listeners: Record<string, ListenerSpecificConfig>; // Listener-specific settings
   peers: Peer[];
   peerTimeoutMs: number;
+  peerRequestMaxAgeMs: number;
+  peerTls?: PeerTlsConfig;
+  preparedDataTtlMs: number;
   minSignaturesRequired: number;
+  dataDirectory: string;
+  retry: RetryConfig;
+  adminApiKey?: string;
+  leaderElection?: LeaderElectionConfig;
+  peerHealth: PeerHealthConfig;
+  tracing?: TracingConfig;
+  idempotency: IdempotencyConfig;
+  bulkTasks: BulkTasksConfig;
+  taskQueue: TaskQueueConfig;
+  taskJournal: TaskJournalConfig;
+  maxTxBytes: number;
 
   constructor(options: OracleConfigOptions) {
     this.id = options.id;
@@ -80,7 +122,51 @@ export class OracleConfig {
     this.listeners = options.listeners; // Assign specific listener config
     this.peers = options.peers || [];
     this.peerTimeoutMs = options.peerTimeoutMs || 30000; // 30 seconds default
+    this.peerRequestMaxAgeMs = options.peerRequestMaxAgeMs || 30000;
+    this.peerTls = options.peerTls;
+    this.preparedDataTtlMs = options.preparedDataTtlMs || 10 * 60 * 1000; // 10 minutes default
     this.minSignaturesRequired = options.minSignaturesRequired || 0; // Default to 0 signatures (adjust as needed)
+    this.dataDirectory = options.dataDirectory || 'data';
+    this.retry = {
+      maxAttempts: 3,
+      initialDelayMs: 1000,
+      maxDelayMs: 30000,
+      multiplier: 2,
+      retryableErrors: ['timeout', 'execute_error', 'insufficient_peers', 'prepare_error', 'throttle_error'],
+      ...options.retry
+    };
+    this.adminApiKey = options.adminApiKey;
+    this.leaderElection = options.leaderElection;
+    this.peerHealth = {
+      heartbeatIntervalMs: 10000,
+      windowSize: 20,
+      minScore: 0.5,
+      divergencePenaltyMs: 10 * 60 * 1000,
+      ...options.peerHealth
+    };
+    this.tracing = options.tracing;
+    this.idempotency = {
+      retentionMs: 24 * 60 * 60 * 1000,
+      deriveFromContent: false,
+      claimGraceMs: 60 * 1000,
+      ...options.idempotency
+    };
+    this.bulkTasks = {
+      maxRequests: 100,
+      concurrency: 4,
+      maxMergeSize: 25,
+      ...options.bulkTasks
+    };
+    this.taskQueue = {
+      maxConcurrency: 16,
+      defaultConcurrency: 4,
+      ...options.taskQueue
+    };
+    this.taskJournal = {
+      retentionMs: 7 * 24 * 60 * 60 * 1000,
+      ...options.taskJournal
+    };
+    this.maxTxBytes = options.maxTxBytes || 1024 * 1024; // 1 MiB default, well below Postchain's transaction limit
   }
 
   /**
@@ -1,4 +1,8 @@
 export interface IListener {
   id: string;
   run(): Promise<number>;
-}
\ No newline at end of file
+  /**
+   * Optional: forgets in-memory progress, so the next run resumes from the checkpoint stored on chain
+   */
+  reset?(): void;
+}
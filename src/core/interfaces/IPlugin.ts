@@ -1,6 +1,7 @@
 import type { Result } from "neverthrow";
 import type { PluginMetadata } from "../types/PluginMetadata";
 import type { ProcessInput } from "../types/Protocol";
+import type { TaskContext } from "../types/TaskContext";
 import type { OracleError } from "../../util/errors";
 
 /**
@@ -14,23 +15,44 @@ export interface IPlugin<TPluginInput, TPrepareOutput, TValidateData, TPluginOut
    * @returns The validation result
    */
   prepare(input: TPluginInput): Promise<Result<TPrepareOutput, OracleError>>;
+
+  /**
+   * Optional: selects the part of a prepared output that nodes have to agree on,
+   * for outputs containing values that legitimately differ between nodes.
+   * @param preparedOutput The output of a prepare step
+   * @returns The data to compare across nodes, defaults to the whole output
+   */
+  consensusData?(preparedOutput: TPrepareOutput): unknown;
   
+  /**
+   * Optional: combines the inputs of several requests into one input, so they are submitted
+   * in a single transaction. The merged input runs as one task.
+   * @param inputs The inputs of requests to this plugin
+   * @returns The merged input, or null when the inputs cannot be combined
+   */
+  mergeInputs?(inputs: TPluginInput[]): TPluginInput | null;
+
   /**
    * Is only executed on the primary node in order to prepare data for the secondary nodes to validate.
+   * The signers of the resulting transaction are assigned by the task, based on which nodes manage to sign it.
    * 
    * @param preparedOutputs The outputs with a majority consensus to prepare a transaction for
+   * @param context The task, with the nonce to make the transaction unique
    * @returns A Buffer representing the transaction
    */
-  process(preparedOutputs: ProcessInput<TPrepareOutput>[]): Promise<Result<TValidateData, OracleError>>;
+  process(preparedOutputs: ProcessInput<TPrepareOutput>[], context: TaskContext): Promise<Result<TValidateData, OracleError>>;
 
   /**
    * Is executed on all secondary nodes in order to validate the data.
+   * Implementations re-derive the expected transaction from their own prepared output and refuse
+   * to sign anything that differs from it.
    * 
    * @param dataToValidate The data to validate
    * @param myPreparedOutput The output of my previous prepare step
+   * @param context The task, with the nonce the transaction is expected to carry
    * @returns The validation result
    */
-  validate(dataToValidate: TValidateData, preparedData: TPrepareOutput): Promise<Result<TValidateData, OracleError>>;
+  validate(dataToValidate: TValidateData, preparedData: TPrepareOutput, context: TaskContext): Promise<Result<TValidateData, OracleError>>;
   
   /**
    * Execute the final transaction after all signatures are collected
@@ -0,0 +1,142 @@
+import config from "../../config";
+import { isLeaderGauge, logger } from "../../util/monitoring";
+import { requestHeartbeat } from "../task/client";
+
+type LeadershipListener = (isLeader: boolean) => void;
+
+const DEFAULT_LEASE_MS = 15000;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 5000;
+
+/**
+ * Elects the node coordinating tasks and running the listeners.
+ *
+ * Candidates send heartbeats to every peer. The leader is the live candidate with the lowest
+ * public key, and it only holds its lease while its heartbeats reach enough peers to sign a
+ * transaction. Without `leaderElection.enabled`, the statically configured `primary` leads.
+ */
+export class LeaderElection {
+  private static instance: LeaderElection;
+  private readonly startedAt = Date.now();
+  private lastSeen = new Map<string, number>();
+  private leaseExpiresAt = 0;
+  private leader = false;
+  private ticking = false;
+  private listeners: LeadershipListener[] = [];
+
+  private constructor() { }
+
+  static getInstance() {
+    if (!LeaderElection.instance) {
+      LeaderElection.instance = new LeaderElection();
+    }
+    return LeaderElection.instance;
+  }
+
+  get enabled(): boolean {
+    return config.leaderElection?.enabled === true;
+  }
+
+  private get leaseMs(): number {
+    return config.leaderElection?.leaseMs ?? DEFAULT_LEASE_MS;
+  }
+
+  private get heartbeatIntervalMs(): number {
+    return config.leaderElection?.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+  }
+
+  private get candidate(): boolean {
+    return config.leaderElection?.candidate === true;
+  }
+
+  isLeader(): boolean {
+    return this.enabled ? this.leader : config.primary;
+  }
+
+  /**
+   * Public key of the node this node considers the leader, if any
+   */
+  currentLeader(): string | null {
+    if (!this.enabled) {
+      return config.primary ? config.publicKey : null;
+    }
+
+    const now = Date.now();
+    const alive = [...this.lastSeen.entries()]
+      .filter(([, seenAt]) => now - seenAt < this.leaseMs)
+      .map(([publicKey]) => publicKey);
+    if (this.candidate) {
+      alive.push(config.publicKey.toLowerCase());
+    }
+
+    return alive.sort()[0] ?? null;
+  }
+
+  /**
+   * Whether a coordination request (prepare, validate) from the given node is to be served
+   */
+  acceptsCoordinationFrom(publicKey: string): boolean {
+    return !this.enabled || this.currentLeader() === publicKey.toLowerCase();
+  }
+
+  /**
+   * Records a heartbeat received from another candidate
+   */
+  recordHeartbeat(publicKey: string) {
+    this.lastSeen.set(publicKey.toLowerCase(), Date.now());
+  }
+
+  onLeadershipChange(listener: LeadershipListener) {
+    this.listeners.push(listener);
+  }
+
+  start() {
+    if (!this.enabled) {
+      this.setLeader(config.primary);
+      return;
+    }
+
+    // Nodes that cannot lead only answer the heartbeats of the candidates
+    if (!this.candidate) return;
+
+    setInterval(() => {
+      this.tick().catch((error) => {
+        logger.error("Leader election heartbeat failed", { error });
+      });
+    }, this.heartbeatIntervalMs);
+  }
+
+  private async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const leader = this.currentLeader();
+      const results = await Promise.all(config.peers.map((peer) => requestHeartbeat(peer, { leader }, this.heartbeatIntervalMs)));
+      const reached = results.filter((result) => result.isOk()).length + 1;
+      if (reached >= Math.max(config.minSignaturesRequired, 1)) {
+        this.leaseExpiresAt = Date.now() + this.leaseMs;
+      }
+
+      // A fresh node first listens for a full lease, so it learns about a leader that is already running
+      const now = Date.now();
+      this.setLeader(
+        now - this.startedAt >= this.leaseMs
+        && now < this.leaseExpiresAt
+        && this.currentLeader() === config.publicKey.toLowerCase()
+      );
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private setLeader(leader: boolean) {
+    if (leader === this.leader) return;
+
+    this.leader = leader;
+    isLeaderGauge.set(leader ? 1 : 0);
+    logger.info(leader ? `${config.id} became the leader` : `${config.id} lost leadership`);
+    for (const listener of this.listeners) {
+      listener(leader);
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import config from "../../config";
+import type { OracleError } from "../../util/errors";
 import type { IListener } from "../interfaces/IListener";
 
+// Errors a plugin returns for the data of the event itself, any other error would fail every event alike
+const EVENT_ERRORS: OracleError["type"][] = ["prepare_error", "process_error"];
+
 export abstract class Listener implements IListener {
   public readonly id: string;
   private _config: Record<string, unknown>;
@@ -19,5 +23,21 @@ export abstract class Listener implements IListener {
     return this._config;
   }
 
+  /**
+   * Whether an event whose task failed because of the event itself is skipped instead of retried with
+   * the whole range. Batches are split down to the failing event first. Errors of the fleet, such as a
+   * failed consensus or a version mismatch, are always retried. Failed tasks stay in the task journal.
+   */
+  get skipPoisonedEvents(): boolean {
+    return this._config.skipPoisonedEvents === true;
+  }
+
+  /**
+   * Whether the event, or one of the events in a batch, behind a task that failed with `error` should be skipped
+   */
+  protected isPoisoned(error: OracleError): boolean {
+    return this.skipPoisonedEvents && EVENT_ERRORS.includes(error.type);
+  }
+
   abstract run(): Promise<number>;
 }
\ No newline at end of file
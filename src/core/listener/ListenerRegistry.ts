@@ -13,6 +13,8 @@ export class ListenerRegistry {
   private static instance: ListenerRegistry;
   private scheduledListeners: ScheduledListener[] = [];
   private running = false;
+  // Incremented on every start, so monitoring loops of a previous run exit even if the registry was restarted in between
+  private generation = 0;
 
   private constructor() {
     this.scheduledListeners = [];
@@ -21,7 +23,6 @@ export class ListenerRegistry {
   public static getInstance(): ListenerRegistry {
     if (!ListenerRegistry.instance) {
       ListenerRegistry.instance = new ListenerRegistry();
-      setTimeout(() => ListenerRegistry.instance.start(), 0);
     }
     return ListenerRegistry.instance;
   }
@@ -60,17 +61,34 @@ export class ListenerRegistry {
   public async start() {
     if (this.running) return;
     this.running = true;
+    this.generation++;
+    logger.info(`Starting ${this.scheduledListeners.length} listeners`);
     
     // Start a separate monitoring loop for each listener
     for (const scheduledListener of this.scheduledListeners) {
-      this.monitorAndRunListener(scheduledListener);
+      scheduledListener.nextRunTime = Date.now();
+      this.monitorAndRunListener(scheduledListener, this.generation);
+    }
+  }
+
+  /**
+   * Stops scheduling listener runs. Runs in progress finish, but their listeners forget their
+   * in-memory progress, so the next start re-derives it from chain state.
+   */
+  public stop() {
+    if (!this.running) return;
+    this.running = false;
+    logger.info(`Stopping ${this.scheduledListeners.length} listeners`);
+
+    for (const { listener } of this.scheduledListeners) {
+      listener.reset?.();
     }
   }
   
-  private async monitorAndRunListener(scheduledListener: ScheduledListener) {
+  private async monitorAndRunListener(scheduledListener: ScheduledListener, generation: number) {
     // Create a dedicated monitoring loop for this listener
     (async () => {
-      while (true) {
+      while (this.running && this.generation === generation) {
         const now = Date.now();
         
         // Check if it's time to run this listener
@@ -0,0 +1,159 @@
+import config from "../../config";
+import type { OracleError } from "../../util/errors";
+import { logger, peerErrorRateGauge, peerHealthScoreGauge, peerLatencyGauge } from "../../util/monitoring";
+import { requestHealth } from "../task/client";
+import type { Peer } from "../types/config/Peer";
+
+type Sample = {
+  ok: boolean;
+  latencyMs: number;
+};
+
+type PeerState = {
+  samples: Sample[];
+  lastSeenAt: number | null;
+  lastDivergentAt: number | null;
+  lastError: OracleError | null;
+};
+
+export type PeerHealth = {
+  oracleId: string;
+  publicKey: string;
+  address: string;
+  healthy: boolean;
+  /** Between 0 and 1, peers scoring below `peerHealth.minScore` are unhealthy */
+  score: number;
+  latencyMs: number | null;
+  errorRate: number;
+  lastSeenAt: number | null;
+  lastDivergentAt: number | null;
+  lastError: OracleError | null;
+};
+
+/**
+ * Rolling health of every configured peer, fed by periodic heartbeats and by the outcome
+ * of each request a task makes to the peer.
+ */
+export class PeerHealthTracker {
+  private static instance: PeerHealthTracker;
+  private states = new Map<string, PeerState>();
+
+  private constructor() { }
+
+  static getInstance() {
+    if (!PeerHealthTracker.instance) {
+      PeerHealthTracker.instance = new PeerHealthTracker();
+    }
+    return PeerHealthTracker.instance;
+  }
+
+  start() {
+    setInterval(() => {
+      this.heartbeat().catch((error) => {
+        logger.error("Peer heartbeat failed", { error });
+      });
+    }, config.peerHealth.heartbeatIntervalMs);
+  }
+
+  recordSuccess(peer: Peer, latencyMs: number) {
+    const state = this.state(peer);
+    this.addSample(peer, state, { ok: true, latencyMs });
+    state.lastSeenAt = Date.now();
+  }
+
+  recordFailure(peer: Peer, latencyMs: number, error: OracleError) {
+    const state = this.state(peer);
+    this.addSample(peer, state, { ok: false, latencyMs });
+    state.lastError = error;
+  }
+
+  /**
+   * Records that the peer prepared data differing from the majority
+   */
+  recordDivergence(peer: Peer) {
+    this.state(peer).lastDivergentAt = Date.now();
+    this.updateGauges(peer);
+  }
+
+  isHealthy(peer: Peer): boolean {
+    return this.score(peer) >= config.peerHealth.minScore;
+  }
+
+  list(): PeerHealth[] {
+    return config.peers.map((peer) => {
+      const state = this.state(peer);
+      return {
+        oracleId: peer.oracleId,
+        publicKey: peer.publicKey,
+        address: peer.address,
+        healthy: this.isHealthy(peer),
+        score: this.score(peer),
+        latencyMs: averageLatency(state.samples),
+        errorRate: errorRate(state.samples),
+        lastSeenAt: state.lastSeenAt,
+        lastDivergentAt: state.lastDivergentAt,
+        lastError: state.lastError
+      };
+    });
+  }
+
+  /**
+   * Peers without any samples yet are given the benefit of the doubt.
+   * Slow peers lose up to half their score, and a recent divergent result halves it.
+   */
+  private score(peer: Peer): number {
+    const state = this.state(peer);
+    const latency = averageLatency(state.samples) ?? 0;
+    const latencyFactor = 1 - Math.min(latency / config.peerTimeoutMs, 1) / 2;
+    const divergenceFactor = state.lastDivergentAt && Date.now() - state.lastDivergentAt < config.peerHealth.divergencePenaltyMs ? 0.5 : 1;
+    return (1 - errorRate(state.samples)) * latencyFactor * divergenceFactor;
+  }
+
+  private async heartbeat() {
+    await Promise.all(config.peers.map(async (peer) => {
+      const startedAt = Date.now();
+      const result = await requestHealth(peer, config.peerTimeoutMs);
+      if (result.isErr()) {
+        this.recordFailure(peer, Date.now() - startedAt, result.error);
+      } else {
+        this.recordSuccess(peer, Date.now() - startedAt);
+      }
+    }));
+  }
+
+  private state(peer: Peer): PeerState {
+    const key = peer.publicKey.toLowerCase();
+    let state = this.states.get(key);
+    if (!state) {
+      state = { samples: [], lastSeenAt: null, lastDivergentAt: null, lastError: null };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  private addSample(peer: Peer, state: PeerState, sample: Sample) {
+    state.samples.push(sample);
+    if (state.samples.length > config.peerHealth.windowSize) {
+      state.samples.shift();
+    }
+    this.updateGauges(peer);
+  }
+
+  private updateGauges(peer: Peer) {
+    const state = this.state(peer);
+    peerHealthScoreGauge.set({ peer: peer.oracleId }, this.score(peer));
+    peerErrorRateGauge.set({ peer: peer.oracleId }, errorRate(state.samples));
+    peerLatencyGauge.set({ peer: peer.oracleId }, averageLatency(state.samples) ?? 0);
+  }
+}
+
+const averageLatency = (samples: Sample[]): number | null => {
+  const successful = samples.filter((sample) => sample.ok);
+  if (successful.length === 0) return null;
+  return successful.reduce((sum, sample) => sum + sample.latencyMs, 0) / successful.length;
+}
+
+const errorRate = (samples: Sample[]): number => {
+  if (samples.length === 0) return 0;
+  return samples.filter((sample) => !sample.ok).length / samples.length;
+}
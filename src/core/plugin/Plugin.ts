@@ -3,6 +3,7 @@ import config from "../../config";
 import type { IPlugin } from "../interfaces/IPlugin";
 import type { PluginMetadata } from "../types/PluginMetadata";
 import type { ProcessInput } from "../types/Protocol";
+import type { TaskContext } from "../types/TaskContext";
 import type { OracleError } from "../../util/errors";
 
 export abstract class Plugin<TPluginInput, TPrepareOutput, TValidateData, TPluginOutput> implements IPlugin<TPluginInput, TPrepareOutput, TValidateData, TPluginOutput> {
@@ -27,7 +28,7 @@ export abstract class Plugin<TPluginInput, TPrepareOutput, TValidateData, TPlugi
   }
 
   abstract prepare(input: TPluginInput): Promise<Result<TPrepareOutput, OracleError>>;
-  abstract process(preparedOutputs: ProcessInput<TPrepareOutput>[]): Promise<Result<TValidateData, OracleError>>;
-  abstract validate(dataToValidate: TValidateData, preparedData: TPrepareOutput): Promise<Result<TValidateData, OracleError>>;
+  abstract process(preparedOutputs: ProcessInput<TPrepareOutput>[], context: TaskContext): Promise<Result<TValidateData, OracleError>>;
+  abstract validate(dataToValidate: TValidateData, preparedData: TPrepareOutput, context: TaskContext): Promise<Result<TValidateData, OracleError>>;
   abstract execute(finalData: TValidateData): Promise<Result<TPluginOutput, OracleError>>;
 }
\ No newline at end of file
@@ -4,17 +4,51 @@ import config from "../../config";
 import { requestPrepare, requestValidate } from "./client";
 import { PluginNotFound } from "../errors/PluginNotFound";
 import type { ProcessInput, ProtocolPrepareResult } from "../types/Protocol";
-import { completedTasksTotal, logger, taskDurationTotal } from "../../util/monitoring";
-import { tryCatch } from "../../util/try-catch";
+import { completedTasksTotal, deadLetteredTasksTotal, latePeerResponsesTotal, logger, peerFailuresTotal, peerMisbehaviorTotal, taskDurationTotal, taskRetriesTotal } from "../../util/monitoring";
 import { err, ok, Result } from "neverthrow";
 import type { OracleError } from "../../util/errors";
+import { randomUUIDv7 } from "bun";
+import { TaskJournal } from "./TaskJournal";
+import { estimateGtxSize, findInvalidSignatures, getGtxDigest, getTxRid, isGtx, verifyGtxSignature, withoutSignatures } from "../../util/gtx";
+import type { GTX } from "postchain-client";
+import type { Peer } from "../types/config/Peer";
+import type { PeerFailure, TaskPhase } from "../types/TaskRecord";
+import type { TaskSimulation } from "../types/TaskSimulation";
+import { findConsensus } from "./consensus";
+import { decode, encode } from "../../util/encoder";
+import { checkSigningPolicy } from "../validation/signing-policy";
+import { isRetryable, retryDelayMs } from "./retry-policy";
+import { sleep } from "../../util/throttle";
+import { PeerHealthTracker } from "../peer/PeerHealthTracker";
+import { localVersions } from "../../util/version";
+import { withSpan } from "../../util/tracing";
+import { TaskQueue, type TaskPriority } from "./TaskQueue";
+import { createTaskContext } from "./nonce";
+import type { Logger } from "winston";
+
+type PeerPrepareResult = { publicKey: string; result: ProtocolPrepareResult<unknown> };
+
+const MAX_SIGNING_ROUNDS = 3;
+
+// Unreachable or slow peers, garbled responses, refused envelopes and bad signatures
+const PEER_FAULTS: OracleError["type"][] = ["timeout", "decode_error", "unauthorized", "validation_error"];
+
+// Tasks with a run or resumed execution in progress in this process, whether queued or started
+const inFlightTasks = new Set<string>();
 
 export class Task<T> {
+  readonly id: string;
   private plugin: IPlugin<unknown, unknown, unknown, T>;
   private input: unknown;
   private startTime: number;
+  private journal: TaskJournal;
+  private peerHealth: PeerHealthTracker;
+  private queue: TaskQueue;
+  private logger: Logger;
+  /** Set while simulating, when peer failures are collected instead of journaled */
+  private simulatedPeerFailures: PeerFailure[] | null = null;
 
-  constructor(pluginId: string, input: unknown) {
+  constructor(pluginId: string, input: unknown, id: string = randomUUIDv7()) {
     const plugin = PluginRegistry.getInstance().get(pluginId);
     if (!plugin) {
       logger.error(`Plugin ${pluginId} not found`);
@@ -23,156 +57,585 @@ export class Task<T> {
     this.plugin = plugin as IPlugin<unknown, unknown, unknown, T>;
     this.input = input;
     this.startTime = Date.now();
+    this.id = id;
+    this.journal = TaskJournal.getInstance();
+    this.peerHealth = PeerHealthTracker.getInstance();
+    this.queue = TaskQueue.getInstance();
+    this.logger = logger.child({ taskId: this.id, pluginId });
+  }
+
+  /**
+   * Whether the task is already being run by this process, e.g. since an earlier leadership term
+   */
+  static isInFlight(id: string): boolean {
+    return inFlightTasks.has(id);
+  }
+
+  private async track<R>(fn: () => Promise<R>): Promise<R> {
+    inFlightTasks.add(this.id);
+    try {
+      return await fn();
+    } finally {
+      inFlightTasks.delete(this.id);
+    }
   }
 
-  private async runPreparePhase(): Promise<Result<{ publicKey: string; result: ProtocolPrepareResult<unknown> }[], OracleError>> {
+  private async runPreparePhase(): Promise<Result<PeerPrepareResult[], OracleError>> {
     const result = await this.plugin.prepare(this.input);
     if (result.isErr()) {
       return err(result.error);
     }
 
-    const peers = config.peers;
-    const peerTimeoutMs = config.peerTimeoutMs;
+    // Peers only ever see prepared data after a round trip through the encoder (which e.g. sorts
+    // object keys), so the primary works with the same canonical form when building the GTX
+    const canonical = decode(encode(result.value));
+    if (canonical.isErr()) {
+      return err(canonical.error);
+    }
 
-    const prepareResults: { publicKey: string; result: ProtocolPrepareResult<unknown> }[] = [];
+    const prepareResults: PeerPrepareResult[] = [];
     prepareResults.push({
       publicKey: config.publicKey,
       result: {
-        data: result.value,
+        data: canonical.value,
         signatureData: null,
         encodedData: "<PRIMARY>"
       }
     });
 
-    const preparePromises = peers.map(async (peer) => {
+    const peers = this.selectPreparePeers();
+
+    // Every request is aborted at its own deadline, so this settles once the slowest peer answered or timed out
+    const startedAt = Date.now();
+    const deadline = startedAt + this.peerTimeoutMs;
+    const peerResults = await Promise.all(peers.map(async (peer) => {
       const result = await requestPrepare<unknown, unknown>(peer, {
         pluginId: this.plugin.metadata.id,
+        taskId: this.id,
         input: this.input,
-      });
+        ...localVersions(this.plugin.metadata.version),
+      }, this.peerTimeoutMs);
+      return { result, receivedAt: Date.now() };
+    }));
 
-      if (result.isErr()) {
-        logger.warn(`Error during prepare phase for plugin ${this.plugin.metadata.id} from peer ${peer.publicKey}: ${result.error.type} > ${result.error.context}`);
-        return err(result.error);
+    const failures: PeerFailure[] = [];
+    for (const [i, { result: peerResult, receivedAt }] of peerResults.entries()) {
+      const peer = peers[i]!;
+      if (peerResult.isErr()) {
+        this.recordPeerHealthFailure(peer, receivedAt - startedAt, peerResult.error);
+        this.logger.warn(`Error during prepare phase for plugin ${this.plugin.metadata.id} from peer ${peer.publicKey}: ${peerResult.error.type} > ${peerResult.error.context}`);
+        peerFailuresTotal.inc({ plugin_id: this.plugin.metadata.id, peer: peer.oracleId, phase: "prepare" });
+        failures.push({ publicKey: peer.publicKey, phase: "prepare", error: peerResult.error });
+        continue;
       }
 
-      prepareResults.push({ publicKey: peer.publicKey, result: result.value });
-    });
+      if (receivedAt > deadline) {
+        this.discardLateResponse(peer, "prepare");
+        continue;
+      }
 
-    const prepareTimeoutPromise = new Promise<void>((resolve, reject) => {
-      setTimeout(() => reject(new Error("Prepare phase timed out")), peerTimeoutMs);
-    });
+      this.peerHealth.recordSuccess(peer, receivedAt - startedAt);
+      prepareResults.push({ publicKey: peer.publicKey, result: peerResult.value });
+    }
 
-    const prepareResult = await tryCatch(Promise.race([Promise.all(preparePromises), prepareTimeoutPromise]));
-    if (prepareResult.error) {
-      return err({ type: "timeout", context: prepareResult.error.message });
+    if (failures.length > 0) {
+      this.recordPeerFailures(failures);
     }
 
-    if (prepareResults.length < config.minSignaturesRequired) {
+    if (prepareResults.length < this.signatureThreshold) {
       return err({ type: "insufficient_peers", context: `Only ${prepareResults.length} peers available` });
     }
 
     return ok(prepareResults);
   }
 
+  /**
+   * Leaves out unhealthy peers, as long as the remaining ones can still reach the signature threshold
+   */
+  private selectPreparePeers(): Peer[] {
+    const healthy = config.peers.filter((peer) => this.peerHealth.isHealthy(peer));
+    if (healthy.length === config.peers.length) {
+      return config.peers;
+    }
+
+    if (healthy.length + 1 < this.signatureThreshold) {
+      this.logger.warn(`Only ${healthy.length} healthy peers for task ${this.id}, asking unhealthy peers as well`);
+      return config.peers;
+    }
+
+    const skipped = config.peers.filter((peer) => !healthy.includes(peer)).map((peer) => peer.oracleId);
+    this.logger.info(`Skipping unhealthy peers ${skipped.join(", ")} for task ${this.id}`);
+    return healthy;
+  }
+
+  /**
+   * Time each peer gets to answer a request, configurable per plugin as `plugins.<id>.peerTimeoutMs`
+   */
+  private get peerTimeoutMs(): number {
+    const pluginTimeout = config.plugins?.[this.plugin.metadata.id]?.peerTimeoutMs as unknown;
+    return typeof pluginTimeout === "number" && pluginTimeout > 0 ? pluginTimeout : config.peerTimeoutMs;
+  }
+
+  /**
+   * Only errors of the peer itself count against its health, a plugin rejecting the input would fail on every node
+   */
+  private recordPeerHealthFailure(peer: Peer, latencyMs: number, error: OracleError) {
+    if (PEER_FAULTS.includes(error.type)) {
+      this.peerHealth.recordFailure(peer, latencyMs, error);
+    }
+  }
+
+  private discardLateResponse(peer: Peer, phase: TaskPhase) {
+    this.logger.warn(`Discarding ${phase} response of peer ${peer.oracleId} for task ${this.id}: arrived after the ${this.peerTimeoutMs}ms deadline`);
+    latePeerResponsesTotal.inc({ plugin_id: this.plugin.metadata.id, peer: peer.oracleId, phase });
+  }
+
+  /**
+   * Number of valid signatures, including our own, required to submit a transaction
+   */
+  private get signatureThreshold(): number {
+    return Math.max(config.minSignaturesRequired, 1);
+  }
+
+  /**
+   * Determines the prepared data a majority of nodes agree on. Nodes that prepared
+   * something else are excluded from the rest of the task.
+   */
+  private runConsensusPhase(prepareResults: PeerPrepareResult[]): Result<PeerPrepareResult[], OracleError> {
+    const consensus = findConsensus(
+      prepareResults,
+      (entry) => this.plugin.consensusData ? this.plugin.consensusData(entry.result.data) : entry.result.data,
+      config.publicKey
+    );
+    if (consensus.isErr()) {
+      return err(consensus.error);
+    }
+
+    const { agreeing, dissenting } = consensus.value;
+    if (!agreeing.some((entry) => entry.publicKey === config.publicKey)) {
+      return err({ type: "consensus_error", context: `Prepared data of this node differs from the majority of ${agreeing.length} peers` });
+    }
+
+    if (dissenting.length > 0) {
+      const failures: PeerFailure[] = dissenting.map((entry) => ({
+        publicKey: entry.publicKey,
+        phase: "prepare",
+        error: { type: "consensus_error", context: "Prepared data differs from the majority" }
+      }));
+      for (const entry of dissenting) {
+        this.logger.warn(`Excluding peer ${entry.publicKey} from task ${this.id}: prepared data differs from the majority`);
+        const peer = config.peers.find((p) => p.publicKey === entry.publicKey);
+        peerFailuresTotal.inc({ plugin_id: this.plugin.metadata.id, peer: peer?.oracleId ?? entry.publicKey, phase: "prepare" });
+        this.countMisbehavior(entry.publicKey, "divergent_prepared_data");
+        if (peer) this.peerHealth.recordDivergence(peer);
+      }
+      this.recordPeerFailures(failures);
+    }
+
+    if (agreeing.length < this.signatureThreshold) {
+      return err({ type: "insufficient_peers", context: `Only ${agreeing.length} of ${this.signatureThreshold} required peers agree on the prepared data` });
+    }
+
+    return ok(agreeing);
+  }
+
   private async runProcessPhase(
-    prepareResults: { publicKey: string; result: ProtocolPrepareResult<unknown> }[]
+    prepareResults: PeerPrepareResult[]
   ): Promise<Result<unknown, OracleError>> {
+    // Every remaining node agreed on this node's prepared data
+    const agreedData = prepareResults.find((result) => result.publicKey === config.publicKey)?.result.data;
     const processInput: ProcessInput<unknown>[] = prepareResults.map((result) => ({
       pubkey: result.publicKey,
-      data: result.result.data!,
+      data: agreedData!,
     }));
 
-    return this.plugin.process(processInput);
+    return this.plugin.process(processInput, createTaskContext(this.plugin, this.id, agreedData));
   }
 
   private async runValidatePhase(
     processedData: unknown,
-    prepareResults: { publicKey: string; result: ProtocolPrepareResult<unknown> }[]
-  ): Promise<Result<unknown, OracleError>> {
-    const selectedPeers = prepareResults.map((result) => result.publicKey);
+    prepareResults: PeerPrepareResult[]
+  ): Promise<Result<GTX, OracleError>> {
+    if (!isGtx(processedData)) {
+      return err({ type: "plugin_error", context: "Processed data is not a GTX" });
+    }
+
+    const policyResult = checkSigningPolicy(this.plugin.metadata, processedData);
+    if (policyResult.isErr()) {
+      return err(policyResult.error);
+    }
 
     if (prepareResults.length === 0) {
       return err({ type: "insufficient_peers" });
     }
 
+    // Checked before anyone signs, the caller may split its input and try again
+    const size = estimateGtxSize(processedData, prepareResults.length);
+    if (size > config.maxTxBytes) {
+      return err({ type: "tx_too_large", context: `Transaction of ${processedData.operations.length} operations is about ${size} bytes, exceeding the limit of ${config.maxTxBytes}` });
+    }
+
+    // Every node that prepared data is a candidate signer. Nodes that fail to sign are
+    // dropped from the signer set and the remaining ones sign again, since the signer
+    // set is part of the digest.
+    let signers = prepareResults.map((result) => Buffer.from(result.publicKey, 'hex'));
+    for (let round = 1; round <= MAX_SIGNING_ROUNDS; round++) {
+      const tx: GTX = { ...withoutSignatures(processedData), signers };
+      const roundResult = await this.runSigningRound(tx, prepareResults);
+      if (roundResult.isErr()) {
+        return err(roundResult.error);
+      }
+
+      const signatures = roundResult.value;
+      const signedBy = signers.filter((signer) => signatures.has(signer.toString('hex').toLowerCase()));
+      if (signedBy.length === signers.length) {
+        // Signatures must be in the same order as the signers of the GTX
+        return ok({ ...tx, signatures: signers.map((signer) => signatures.get(signer.toString('hex').toLowerCase())!) });
+      }
+
+      if (signedBy.length < this.signatureThreshold) {
+        return err({ type: "insufficient_peers", context: `Only ${signedBy.length} of ${this.signatureThreshold} required signatures collected` });
+      }
+
+      this.logger.warn(`Signing round ${round} for task ${this.id} collected ${signedBy.length}/${signers.length} signatures, retrying with the responsive signers`);
+      signers = signedBy;
+    }
+
+    return err({ type: "insufficient_peers", context: `Signer set did not settle after ${MAX_SIGNING_ROUNDS} rounds` });
+  }
+
+  /**
+   * Asks the primary and every selected peer to sign the GTX concurrently.
+   * Peers that fail, time out or return an invalid signature are recorded and left out.
+   */
+  private async runSigningRound(tx: GTX, prepareResults: PeerPrepareResult[]): Promise<Result<Map<string, Buffer>, OracleError>> {
     const firstPrepareResult = prepareResults[0]?.result.data;
     if (!firstPrepareResult) {
       return err({ type: "plugin_error", context: "No prepare result from primary peer" });
     }
 
-    const primaryValidateResult = await this.plugin.validate(processedData, firstPrepareResult);
+    const digest = getGtxDigest(tx);
+    const signatures = new Map<string, Buffer>();
+
+    // The primary refusing to sign its own transaction is always fatal
+    const context = createTaskContext(this.plugin, this.id, firstPrepareResult);
+    const primaryValidateResult = await this.plugin.validate(withoutSignatures(tx), firstPrepareResult, context);
     if (primaryValidateResult.isErr()) {
       return err(primaryValidateResult.error);
-    } else if (!primaryValidateResult.value) {
-      return err({ type: "plugin_error", context: "Received no validation result from primary peer" });
     }
 
-    // Peers from config that have been selected for validation, excluding ourselves
-    const validationPeers = selectedPeers
-      .map((peer) => config.peers.find((p) => p.publicKey === peer))
-      .filter((peer) => peer !== undefined);
+    const primarySignature = this.extractSignature(primaryValidateResult.value, digest, config.publicKey);
+    if (primarySignature.isErr()) {
+      return err(primarySignature.error);
+    }
+    signatures.set(config.publicKey.toLowerCase(), primarySignature.value);
 
-    let data: unknown = primaryValidateResult.value;
-    for (const peer of validationPeers) {
-      const preparedData = prepareResults.find((result) => result.publicKey === peer.publicKey)?.result.data;
-      if (!preparedData) return err({ type: "plugin_error", context: "No prepared data received from peer" });
-      const signature = prepareResults.find((result) => result.publicKey === peer.publicKey)?.result.signatureData?.signature;
-      if (!signature) return err({ type: "plugin_error", context: "No signature received from peer" });
+    // Peers from config that are part of the signer set, excluding ourselves
+    const signerKeys = tx.signers.map((signer) => signer.toString('hex').toLowerCase());
+    const validationPeers = config.peers.filter((peer) => signerKeys.includes(peer.publicKey.toLowerCase()));
 
-      const validationResult = await requestValidate(peer, {
-        pluginId: this.plugin.metadata.id,
-        input: data,
-        preparedData,
-        signature,
-      });
-      if (validationResult.isErr()) {
-        return err(validationResult.error);
+    const startedAt = Date.now();
+    const deadline = startedAt + this.peerTimeoutMs;
+    const peerSignatures = await Promise.all(validationPeers.map(async (peer) => {
+      const signature = await this.requestPeerSignature(peer, tx, digest, prepareResults);
+      return { signature, receivedAt: Date.now() };
+    }));
+
+    const failures: PeerFailure[] = [];
+    for (const [i, { signature: peerSignature, receivedAt }] of peerSignatures.entries()) {
+      const peer = validationPeers[i]!;
+      if (peerSignature.isErr()) {
+        this.logger.warn(`Peer ${peer.oracleId} did not sign task ${this.id}: ${peerSignature.error.type} > ${peerSignature.error.context}`);
+        this.recordPeerHealthFailure(peer, receivedAt - startedAt, peerSignature.error);
+        peerFailuresTotal.inc({ plugin_id: this.plugin.metadata.id, peer: peer.oracleId, phase: "validate" });
+        failures.push({ publicKey: peer.publicKey, phase: "validate", error: peerSignature.error });
+        continue;
+      }
+
+      if (receivedAt > deadline) {
+        this.discardLateResponse(peer, "validate");
+        continue;
       }
+      this.peerHealth.recordSuccess(peer, receivedAt - startedAt);
+      signatures.set(peer.publicKey.toLowerCase(), peerSignature.value);
+    }
 
-      data = validationResult.value;
+    if (failures.length > 0) {
+      this.recordPeerFailures(failures);
     }
 
-    return ok(data);
+    return ok(signatures);
+  }
+
+  private async requestPeerSignature(peer: Peer, tx: GTX, digest: Buffer, prepareResults: PeerPrepareResult[]): Promise<Result<Buffer, OracleError>> {
+    const prepareResult = prepareResults.find((result) => result.publicKey === peer.publicKey)?.result;
+    if (!prepareResult?.data) return err({ type: "plugin_error", context: `No prepared data received from peer ${peer.oracleId}` });
+    const signatureData = prepareResult.signatureData;
+    if (!signatureData?.signature) return err({ type: "validation_error", context: `No signature received from peer ${peer.oracleId}` });
+
+    const validationResult = await requestValidate(peer, {
+      pluginId: this.plugin.metadata.id,
+      taskId: this.id,
+      input: withoutSignatures(tx),
+      preparedData: prepareResult.data,
+      signature: signatureData.signature,
+      expiresAt: signatureData.expiresAt,
+    }, this.peerTimeoutMs);
+    if (validationResult.isErr()) {
+      return err(validationResult.error);
+    }
+
+    return this.extractSignature(validationResult.value, digest, peer.publicKey);
+  }
+
+  /**
+   * Takes the signature a node appended to the GTX and verifies it against the node's public key
+   */
+  private extractSignature(validatedData: unknown, digest: Buffer, publicKey: string): Result<Buffer, OracleError> {
+    const signature = isGtx(validatedData) ? validatedData.signatures?.at(-1) : undefined;
+    if (!signature) {
+      return err({ type: "validation_error", context: `No signature returned by ${publicKey}` });
+    }
+
+    if (!verifyGtxSignature(digest, Buffer.from(signature), Buffer.from(publicKey, 'hex'))) {
+      if (publicKey !== config.publicKey) {
+        this.countMisbehavior(publicKey, "invalid_signature");
+      }
+      return err({ type: "validation_error", context: `Invalid signature returned by ${publicKey}` });
+    }
+
+    return ok(Buffer.from(signature));
+  }
+
+  /**
+   * Verifies every signature of the fully signed GTX against its signer before it is submitted,
+   * so a bad signature is blamed on the node that produced it instead of being rejected by Postchain
+   */
+  private verifySignatures(tx: GTX): Result<void, OracleError> {
+    const invalidSigners = findInvalidSignatures(tx).map((signer) => signer.toString('hex').toLowerCase());
+    if (invalidSigners.length === 0) {
+      return ok(undefined);
+    }
+
+    const failures: PeerFailure[] = invalidSigners.map((publicKey) => {
+      const error: OracleError = { type: "validation_error", context: "Signature in the signed GTX does not match the signer" };
+      const peer = config.peers.find((p) => p.publicKey.toLowerCase() === publicKey);
+      this.logger.warn(`Signature of ${peer?.oracleId ?? publicKey} in the signed GTX of task ${this.id} is invalid`);
+      this.countMisbehavior(publicKey, "invalid_signature");
+      if (peer) this.peerHealth.recordFailure(peer, 0, error);
+      return { publicKey, phase: "execute", error };
+    });
+    this.recordPeerFailures(failures);
+
+    return err({ type: "validation_error", context: `Invalid signatures from ${invalidSigners.join(", ")}` });
+  }
+
+  private countMisbehavior(publicKey: string, reason: string) {
+    const peer = config.peers.find((p) => p.publicKey.toLowerCase() === publicKey.toLowerCase());
+    peerMisbehaviorTotal.inc({ plugin_id: this.plugin.metadata.id, peer: peer?.oracleId ?? publicKey, reason });
   }
 
   private async runExecutePhase(validatedData: unknown): Promise<Result<unknown, OracleError>> {
+    if (isGtx(validatedData)) {
+      const policyResult = checkSigningPolicy(this.plugin.metadata, validatedData);
+      if (policyResult.isErr()) {
+        return err(policyResult.error);
+      }
+
+      const signatureResult = this.verifySignatures(validatedData);
+      if (signatureResult.isErr()) {
+        return err(signatureResult.error);
+      }
+    }
+
+    // Recorded first, so a task found in the execute phase always has the data to resume with
+    this.journal.recordValidatedData(this.id, validatedData);
+    this.journal.setPhase(this.id, "execute");
     return this.plugin.execute(validatedData);
   }
 
   async start(): Promise<Result<T, OracleError>> {
+    this.journal.create(this.id, this.plugin.metadata.id, this.input);
+
     // Run each phase in sequence
-    const prepareResultsRes = await this.runPreparePhase();
+    const prepareResultsRes = await withSpan("task.prepare", {}, () => this.runPreparePhase());
 
     if (prepareResultsRes.isErr()) {
       if (prepareResultsRes.error.type === "permanent_error") {
-        logger.warn(`Permanent error during prepare phase for plugin ${this.plugin.metadata.id}`);
+        this.logger.warn(`Permanent error during prepare phase for plugin ${this.plugin.metadata.id}`);
+        this.journal.skip(this.id, prepareResultsRes.error);
         return ok(undefined as T);
       }
-      logger.error(`Error during prepare phase: ${prepareResultsRes.error.type} > ${prepareResultsRes.error.context}`);
-      return err(prepareResultsRes.error);
+      this.logger.error(`Error during prepare phase: ${prepareResultsRes.error.type} > ${prepareResultsRes.error.context}`);
+      return this.fail(prepareResultsRes.error);
     }
 
-    const prepareResults = prepareResultsRes.value;
-    const processedData = await this.runProcessPhase(prepareResults);
+    this.journal.recordPrepareResults(this.id, prepareResultsRes.value.map((result) => ({
+      publicKey: result.publicKey,
+      data: result.result.data
+    })));
+
+    const consensusRes = await withSpan("task.consensus", {}, async () => this.runConsensusPhase(prepareResultsRes.value));
+    if (consensusRes.isErr()) {
+      this.logger.error(`Error during consensus: ${consensusRes.error.type} > ${consensusRes.error.context}`);
+      return this.fail(consensusRes.error);
+    }
+
+    const prepareResults = consensusRes.value;
+
+    this.journal.setPhase(this.id, "process");
+    const processedData = await withSpan("task.process", {}, () => this.runProcessPhase(prepareResults));
     if (processedData.isErr()) {
-      logger.error(`Error during process phase: ${processedData.error.type} > ${processedData.error.context}`);
-      return err(processedData.error);
+      this.logger.error(`Error during process phase: ${processedData.error.type} > ${processedData.error.context}`);
+      return this.fail(processedData.error);
     }
 
-    const validatedData = await this.runValidatePhase(processedData.value, prepareResults);
+    this.journal.setPhase(this.id, "validate");
+    const validatedData = await withSpan("task.validate", {}, () => this.runValidatePhase(processedData.value, prepareResults));
     if (validatedData.isErr()) {
-      logger.error(`Error during validate phase: ${validatedData.error.type} > ${validatedData.error.context}`);
-      return err(validatedData.error);
+      this.logger.error(`Error during validate phase: ${validatedData.error.type} > ${validatedData.error.context}`);
+      return this.fail(validatedData.error);
     }
 
-    const executeResult = await this.runExecutePhase(validatedData.value);
-    if (executeResult.isErr()) {
-      logger.error(`Error during execute phase: ${executeResult.error.type} > ${executeResult.error.context}`);
-      return err(executeResult.error);
+    return this.execute(validatedData.value);
+  }
+
+  /**
+   * Runs the task, retrying failed attempts with exponential backoff when the error is retryable.
+   * A task that exhausts its attempts is moved to the dead-letter queue.
+   * Every attempt waits for its turn in the task queue, the task does not hold a slot while backing off.
+   */
+  async run(priority: TaskPriority = "normal"): Promise<Result<T, OracleError>> {
+    // Before anything is awaited, so a task is visible as soon as it was accepted
+    this.journal.enqueue(this.id, this.plugin.metadata.id, this.input);
+    return this.track(() => withSpan("task", { attributes: this.spanAttributes }, async (span) => {
+      let attempts = this.journal.get(this.id)?.attempts ?? 0;
+      while (true) {
+        attempts++;
+        span.setAttribute("task.attempts", attempts);
+        const result = await this.queue.schedule(this.plugin.metadata.id, priority, () =>
+          withSpan("task.attempt", { attributes: { "task.attempt": attempts } }, () => this.start())
+        );
+        if (result.isOk() || !isRetryable(result.error)) {
+          return result;
+        }
+
+        if (attempts >= config.retry.maxAttempts) {
+          this.logger.error(`Task ${this.id} failed ${attempts} times, moving it to the dead-letter queue: ${result.error.type} > ${result.error.context}`);
+          this.journal.deadLetter(this.id, result.error);
+          deadLetteredTasksTotal.inc({ plugin_id: this.plugin.metadata.id, error_type: result.error.type });
+          return result;
+        }
+
+        const delayMs = retryDelayMs(attempts);
+        this.logger.warn(`Attempt ${attempts}/${config.retry.maxAttempts} of task ${this.id} failed with ${result.error.type}, retrying in ${delayMs}ms`);
+        this.journal.scheduleRetry(this.id, result.error, Date.now() + delayMs);
+        taskRetriesTotal.inc({ plugin_id: this.plugin.metadata.id, error_type: result.error.type });
+        await sleep(delayMs);
+      }
+    }));
+  }
+
+  /**
+   * Re-submits data that was already fully validated before the node went down.
+   * Resubmitting the same signed transaction is idempotent on Postchain.
+   */
+  async resumeExecution(validatedData: unknown, priority: TaskPriority = "normal"): Promise<Result<T, OracleError>> {
+    return this.track(() => this.queue.schedule(this.plugin.metadata.id, priority, () =>
+      withSpan("task.resume", { attributes: this.spanAttributes }, () => this.execute(validatedData))
+    ));
+  }
+
+  private async execute(validatedData: unknown): Promise<Result<T, OracleError>> {
+    return withSpan("task.execute", {}, async (span) => {
+      const txRid = isGtx(validatedData) ? getTxRid(validatedData) : null;
+      if (txRid) {
+        span.setAttribute("postchain.tx_rid", txRid);
+      }
+
+      const executeResult = await this.runExecutePhase(validatedData);
+      if (executeResult.isErr()) {
+        this.logger.error(`Error during execute phase: ${executeResult.error.type} > ${executeResult.error.context}`);
+        return this.fail(executeResult.error);
+      }
+
+      this.journal.complete(this.id, txRid, executeResult.value);
+      completedTasksTotal.inc({ plugin_id: this.plugin.metadata.id });
+      taskDurationTotal.observe({ plugin_id: this.plugin.metadata.id }, Date.now() - this.startTime);
+      return ok(executeResult.value as T);
+    });
+  }
+
+  private get spanAttributes() {
+    return { "task.id": this.id, "plugin.id": this.plugin.metadata.id, "oracle.id": config.id };
+  }
+
+  /**
+   * Runs the prepare, consensus, process and validate phases like a real task, so peers prepare
+   * and sign as usual, but never executes the transaction. Nothing is written to the journal.
+   */
+  async simulate(priority: TaskPriority = "interactive"): Promise<Result<TaskSimulation, OracleError>> {
+    this.simulatedPeerFailures = [];
+    const peerFailures = this.simulatedPeerFailures;
+
+    return this.queue.schedule(this.plugin.metadata.id, priority, () => withSpan("task.simulate", { attributes: this.spanAttributes }, async () => {
+      const prepareResults = await withSpan("task.prepare", {}, () => this.runPreparePhase());
+      if (prepareResults.isErr()) {
+        return err(prepareResults.error);
+      }
+
+      const consensus = await withSpan("task.consensus", {}, async () => this.runConsensusPhase(prepareResults.value));
+      if (consensus.isErr()) {
+        return err(consensus.error);
+      }
+
+      const processedData = await withSpan("task.process", {}, () => this.runProcessPhase(consensus.value));
+      if (processedData.isErr()) {
+        return err(processedData.error);
+      }
+
+      const tx = await withSpan("task.validate", {}, () => this.runValidatePhase(processedData.value, consensus.value));
+      if (tx.isErr()) {
+        return err(tx.error);
+      }
+
+      const signatureResult = this.verifySignatures(tx.value);
+      if (signatureResult.isErr()) {
+        return err(signatureResult.error);
+      }
+
+      const agreeing = new Set(consensus.value.map((entry) => entry.publicKey));
+      return ok({
+        id: this.id,
+        pluginId: this.plugin.metadata.id,
+        blockchainRid: tx.value.blockchainRid,
+        operations: tx.value.operations.map((operation) => ({ name: operation.opName, args: operation.args })),
+        signers: tx.value.signers,
+        txRid: getTxRid(tx.value),
+        prepareResults: prepareResults.value.map((entry) => ({
+          publicKey: entry.publicKey,
+          data: entry.result.data,
+          agreed: agreeing.has(entry.publicKey)
+        })),
+        peerFailures
+      });
+    }));
+  }
+
+  private recordPeerFailures(failures: PeerFailure[]) {
+    if (this.simulatedPeerFailures) {
+      this.simulatedPeerFailures.push(...failures);
+      return;
     }
+    this.journal.recordPeerFailures(this.id, failures);
+  }
 
-    completedTasksTotal.inc({ plugin_id: this.plugin.metadata.id });
-    taskDurationTotal.observe({ plugin_id: this.plugin.metadata.id }, Date.now() - this.startTime);
-    return ok(executeResult.value as T);
+  private fail(error: OracleError): Result<T, OracleError> {
+    if (error.type === "non_error") {
+      this.journal.skip(this.id, error);
+    } else {
+      this.journal.fail(this.id, error);
+    }
+    return err(error);
   }
 }
@@ -0,0 +1,135 @@
+import { err, type Result } from "neverthrow";
+import config from "../../config";
+import type { OracleError } from "../../util/errors";
+import { batchedTasksTotal, logger } from "../../util/monitoring";
+import { PluginRegistry } from "../plugin/PluginRegistry";
+import { Task } from "./Task";
+import { TaskJournal } from "./TaskJournal";
+import type { TaskPriority } from "./TaskQueue";
+
+type PendingTask = {
+  input: unknown;
+  resolve: (result: Result<unknown, OracleError>) => void;
+};
+
+type Batch = {
+  pluginId: string;
+  priority: TaskPriority;
+  tasks: PendingTask[];
+  timer: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Collects the inputs of tasks for a plugin over a short window and runs them as one task,
+ * so they are prepared in one round and submitted in a single transaction.
+ *
+ * Opt-in per plugin with `plugins.<id>.batchWindowMs` (and optionally `plugins.<id>.maxBatchSize`),
+ * for plugins able to merge inputs. Every caller receives the result of the merged task, which covers
+ * its input. When the inputs cannot be merged or the merged task does not complete, they are run one
+ * by one, so a single bad input only fails its own caller.
+ */
+export class TaskBatcher {
+  private static instance: TaskBatcher;
+  private batches = new Map<string, Batch>();
+
+  private constructor() { }
+
+  static getInstance() {
+    if (!TaskBatcher.instance) {
+      TaskBatcher.instance = new TaskBatcher();
+    }
+    return TaskBatcher.instance;
+  }
+
+  /**
+   * Runs a task for the input, batched with other inputs when the plugin has batching enabled
+   */
+  async submit<T>(pluginId: string, input: unknown, priority: TaskPriority = "normal"): Promise<Result<T, OracleError>> {
+    const windowMs = this.pluginSetting(pluginId, "batchWindowMs");
+    if (!windowMs || !PluginRegistry.getInstance().get(pluginId)?.mergeInputs) {
+      return runTask<T>(pluginId, input, priority);
+    }
+
+    return new Promise<Result<T, OracleError>>((resolve) => {
+      const key = `${pluginId}:${priority}`;
+      let batch = this.batches.get(key);
+      if (!batch) {
+        batch = { pluginId, priority, tasks: [], timer: setTimeout(() => this.flush(key), windowMs) };
+        this.batches.set(key, batch);
+      }
+
+      batch.tasks.push({ input, resolve: resolve as PendingTask["resolve"] });
+      if (batch.tasks.length >= (this.pluginSetting(pluginId, "maxBatchSize") ?? Infinity)) {
+        this.flush(key);
+      }
+    });
+  }
+
+  private flush(key: string) {
+    const batch = this.batches.get(key);
+    if (!batch) return;
+
+    clearTimeout(batch.timer);
+    this.batches.delete(key);
+    void this.runBatch(batch);
+  }
+
+  private async runBatch({ pluginId, priority, tasks }: Batch) {
+    let mergedTaskId: string | null = null;
+    if (tasks.length > 1) {
+      const merged = await this.runMerged(pluginId, priority, tasks);
+      if (merged.result) {
+        for (const task of tasks) task.resolve(merged.result);
+        return;
+      }
+      mergedTaskId = merged.taskId;
+    }
+
+    await Promise.all(tasks.map(async (task) => task.resolve(await runTask(pluginId, task.input, priority))));
+    // Its inputs were run one by one, replaying the merged task would run them again
+    if (mergedTaskId) {
+      TaskJournal.getInstance().discard(mergedTaskId);
+    }
+  }
+
+  /**
+   * Runs the inputs as one task. The result is null when they cannot be merged or the merged task did not complete,
+   * the id of a merged task is returned either way so its record can be discarded.
+   */
+  private async runMerged(pluginId: string, priority: TaskPriority, tasks: PendingTask[]): Promise<{ taskId: string | null; result: Result<unknown, OracleError> | null }> {
+    let taskId: string | null = null;
+    try {
+      const merged = PluginRegistry.getInstance().get(pluginId)?.mergeInputs?.(tasks.map((task) => task.input)) ?? null;
+      if (merged === null) {
+        return { taskId, result: null };
+      }
+
+      batchedTasksTotal.inc({ plugin_id: pluginId }, tasks.length);
+      const task = new Task(pluginId, merged);
+      taskId = task.id;
+      const result = await task.run(priority);
+      if (result.isOk() && TaskJournal.getInstance().isCompleted(task.id)) {
+        return { taskId, result };
+      }
+      logger.warn(`Batch of ${tasks.length} tasks for plugin ${pluginId} did not complete (${result.isErr() ? result.error.type : "skipped"}), running them one by one`);
+    } catch (error) {
+      logger.error(`Failed to run batch of ${tasks.length} tasks for plugin ${pluginId}, running them one by one`, { error });
+    }
+    return { taskId, result: null };
+  }
+
+  private pluginSetting(pluginId: string, key: "batchWindowMs" | "maxBatchSize"): number | undefined {
+    const value = config.plugins?.[pluginId]?.[key] as unknown;
+    return typeof value === "number" && value > 0 ? value : undefined;
+  }
+}
+
+// A plugin throwing while the task is created or run fails only the caller of that task
+const runTask = async <T>(pluginId: string, input: unknown, priority: TaskPriority): Promise<Result<T, OracleError>> => {
+  try {
+    return await new Task<T>(pluginId, input).run(priority);
+  } catch (error) {
+    logger.error(`Task for plugin ${pluginId} threw`, { error });
+    return err({ type: 'plugin_error', context: `Task failed: ${error}` });
+  }
+}
@@ -0,0 +1,372 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { join } from "path";
+import { Result } from "neverthrow";
+import config from "../../config";
+import { decode, encode } from "../../util/encoder";
+import type { OracleError } from "../../util/errors";
+import { logger } from "../../util/monitoring";
+import type { IdempotencyClaim, JournaledPrepareResult, PeerFailure, TaskPhase, TaskRecord, TaskStatus } from "../types/TaskRecord";
+
+type TaskRow = {
+  id: string;
+  plugin_id: string;
+  phase: string;
+  status: string;
+  input: Uint8Array | null;
+  prepare_results: Uint8Array | null;
+  peer_failures: Uint8Array | null;
+  validated_data: Uint8Array | null;
+  result: Uint8Array | null;
+  tx_rid: string | null;
+  error_type: string | null;
+  error_context: string | null;
+  attempts: number;
+  next_attempt_at: number | null;
+  created_at: number;
+  updated_at: number;
+  finished_at: number | null;
+};
+
+/**
+ * Durable record of every task this node coordinates, so that a restart
+ * mid-task can be resumed or safely aborted.
+ */
+export class TaskJournal {
+  private static instance: TaskJournal;
+  private db: Database;
+
+  private constructor() {
+    mkdirSync(config.dataDirectory, { recursive: true });
+    this.db = new Database(join(config.dataDirectory, "tasks.sqlite"), { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        plugin_id TEXT NOT NULL,
+        phase TEXT NOT NULL,
+        status TEXT NOT NULL,
+        input BLOB,
+        prepare_results BLOB,
+        validated_data BLOB,
+        tx_rid TEXT,
+        error_type TEXT,
+        error_context TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        finished_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS tasks_status_idx ON tasks (status);
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        key TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        request_hash TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `);
+    this.migrate();
+  }
+
+  static getInstance() {
+    if (!TaskJournal.instance) {
+      TaskJournal.instance = new TaskJournal();
+    }
+    return TaskJournal.instance;
+  }
+
+  /**
+   * Records a task accepted to run, so it is visible while its first attempt waits in the task queue.
+   * A task that already has a record, e.g. a replayed one, keeps it.
+   */
+  enqueue(id: string, pluginId: string, input: unknown) {
+    const now = Date.now();
+    this.run(id, "enqueue", () => {
+      this.db.query(`
+        INSERT INTO tasks (id, plugin_id, phase, status, input, attempts, created_at, updated_at)
+        VALUES ($id, $pluginId, 'prepare', 'queued', $input, 0, $now, $now)
+        ON CONFLICT (id) DO NOTHING
+      `).run({ $id: id, $pluginId: pluginId, $input: encode(input), $now: now });
+    });
+  }
+
+  /**
+   * Records the start of an attempt. Data of an earlier attempt is cleared, so the task
+   * can never resume from signed data that does not belong to the current attempt.
+   */
+  create(id: string, pluginId: string, input: unknown) {
+    const now = Date.now();
+    this.run(id, "create", () => {
+      this.db.query(`DELETE FROM tasks WHERE status IN ('completed', 'discarded') AND updated_at < $cutoff`)
+        .run({ $cutoff: now - config.taskJournal.retentionMs });
+
+      this.db.query(`
+        INSERT INTO tasks (id, plugin_id, phase, status, input, attempts, created_at, updated_at)
+        VALUES ($id, $pluginId, 'prepare', 'running', $input, 1, $now, $now)
+        ON CONFLICT (id) DO UPDATE SET
+          phase = 'prepare', status = 'running', error_type = NULL, error_context = NULL,
+          prepare_results = NULL, peer_failures = NULL, validated_data = NULL, result = NULL, tx_rid = NULL,
+          attempts = attempts + 1, next_attempt_at = NULL, finished_at = NULL, updated_at = $now
+      `).run({ $id: id, $pluginId: pluginId, $input: encode(input), $now: now });
+    });
+  }
+
+  /**
+   * Claims an idempotency key for a new task. Returns the earlier claim when the key was already
+   * used within the retention window, or null when the key now belongs to `taskId`.
+   */
+  claimIdempotencyKey(key: string, taskId: string, requestHash: string): Result<IdempotencyClaim | null, OracleError> {
+    return this.query("claimIdempotencyKey", () => {
+      const now = Date.now();
+      this.db.query(`DELETE FROM idempotency_keys WHERE created_at < $cutoff`)
+        .run({ $cutoff: now - config.idempotency.retentionMs });
+
+      const inserted = this.db.query(`
+        INSERT INTO idempotency_keys (key, task_id, request_hash, created_at)
+        VALUES ($key, $taskId, $requestHash, $now)
+        ON CONFLICT (key) DO NOTHING
+      `).run({ $key: key, $taskId: taskId, $requestHash: requestHash, $now: now });
+      if (inserted.changes > 0) {
+        return null;
+      }
+
+      const row = this.db.query(`SELECT task_id, request_hash, created_at FROM idempotency_keys WHERE key = $key`)
+        .get({ $key: key }) as { task_id: string; request_hash: string; created_at: number } | null;
+      return row ? { taskId: row.task_id, requestHash: row.request_hash, claimedAt: row.created_at } : null;
+    });
+  }
+
+  /**
+   * Moves an idempotency key from a task that was never journaled to `taskId`.
+   * Returns false when the key changed hands or its task was journaled in the meantime.
+   */
+  reclaimIdempotencyKey(key: string, previousTaskId: string, taskId: string, requestHash: string): Result<boolean, OracleError> {
+    return this.query("reclaimIdempotencyKey", () => {
+      const updated = this.db.query(`
+        UPDATE idempotency_keys SET task_id = $taskId, request_hash = $requestHash, created_at = $now
+        WHERE key = $key AND task_id = $previousTaskId AND NOT EXISTS (SELECT 1 FROM tasks WHERE id = $previousTaskId)
+      `).run({ $key: key, $previousTaskId: previousTaskId, $taskId: taskId, $requestHash: requestHash, $now: Date.now() });
+      return updated.changes > 0;
+    });
+  }
+
+  setPhase(id: string, phase: TaskPhase) {
+    this.run(id, "setPhase", () => {
+      this.db.query(`UPDATE tasks SET phase = $phase, updated_at = $now WHERE id = $id`)
+        .run({ $id: id, $phase: phase, $now: Date.now() });
+    });
+  }
+
+  recordPrepareResults(id: string, prepareResults: JournaledPrepareResult[]) {
+    this.run(id, "recordPrepareResults", () => {
+      this.db.query(`UPDATE tasks SET prepare_results = $results, updated_at = $now WHERE id = $id`)
+        .run({ $id: id, $results: encode(prepareResults), $now: Date.now() });
+    });
+  }
+
+  recordPeerFailures(id: string, failures: PeerFailure[]) {
+    this.run(id, "recordPeerFailures", () => {
+      const row = this.db.query(`SELECT peer_failures FROM tasks WHERE id = $id`).get({ $id: id }) as Pick<TaskRow, "peer_failures"> | null;
+      const existing = this.decodeColumn<PeerFailure[]>(id, "peer_failures", row?.peer_failures ?? null) ?? [];
+      this.db.query(`UPDATE tasks SET peer_failures = $failures, updated_at = $now WHERE id = $id`)
+        .run({ $id: id, $failures: encode([...existing, ...failures]), $now: Date.now() });
+    });
+  }
+
+  recordValidatedData(id: string, validatedData: unknown) {
+    this.run(id, "recordValidatedData", () => {
+      this.db.query(`UPDATE tasks SET validated_data = $data, updated_at = $now WHERE id = $id`)
+        .run({ $id: id, $data: encode(validatedData), $now: Date.now() });
+    });
+  }
+
+  complete(id: string, txRid: string | null, result: unknown) {
+    this.run(id, "recordResult", () => {
+      this.db.query(`UPDATE tasks SET result = $result WHERE id = $id`)
+        .run({ $id: id, $result: encode(result) });
+    });
+    this.finish(id, "completed", null, txRid);
+  }
+
+  skip(id: string, error: OracleError) {
+    this.finish(id, "skipped", error);
+  }
+
+  fail(id: string, error: OracleError) {
+    this.finish(id, "failed", error);
+  }
+
+  /**
+   * Marks a failed task as waiting for another attempt at `nextAttemptAt`
+   */
+  scheduleRetry(id: string, error: OracleError, nextAttemptAt: number) {
+    this.run(id, "scheduleRetry", () => {
+      this.db.query(`
+        UPDATE tasks SET status = 'retrying', error_type = $errorType, error_context = $errorContext,
+          next_attempt_at = $nextAttemptAt, finished_at = NULL, updated_at = $now
+        WHERE id = $id
+      `).run({
+        $id: id,
+        $errorType: error.type,
+        $errorContext: error.context ?? null,
+        $nextAttemptAt: nextAttemptAt,
+        $now: Date.now()
+      });
+    });
+  }
+
+  /**
+   * Moves a task that exhausted its retries to the dead-letter queue
+   */
+  deadLetter(id: string, error: OracleError) {
+    this.finish(id, "dead_lettered", error);
+  }
+
+  /**
+   * Gives a failed task a fresh set of attempts before it is replayed. The task counts as running
+   * from here on, so a second replay request is refused while it waits for the task queue.
+   * Its signed data is cleared, so a recovery before the replay records its own restarts it from prepare.
+   */
+  resetAttempts(id: string) {
+    this.run(id, "resetAttempts", () => {
+      this.db.query(`
+        UPDATE tasks SET status = 'running', phase = 'prepare', validated_data = NULL, attempts = 0,
+          next_attempt_at = NULL, finished_at = NULL, updated_at = $now
+        WHERE id = $id
+      `).run({ $id: id, $now: Date.now() });
+    });
+  }
+
+  /**
+   * Marks a failed task as handled without running it again
+   */
+  discard(id: string) {
+    this.run(id, "discard", () => {
+      this.db.query(`UPDATE tasks SET status = 'discarded', updated_at = $now WHERE id = $id`)
+        .run({ $id: id, $now: Date.now() });
+    });
+  }
+
+  abort(id: string, reason: string) {
+    this.finish(id, "aborted", { type: "permanent_error", context: reason });
+  }
+
+  get(id: string): TaskRecord | null {
+    const row = this.db.query(`SELECT * FROM tasks WHERE id = $id`).get({ $id: id }) as TaskRow | null;
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * Whether the task ran to completion. A task skipped after a permanent error also
+   * returns without error, but did not submit anything.
+   */
+  isCompleted(id: string): boolean {
+    return this.get(id)?.status === "completed";
+  }
+
+  listUnfinished(): TaskRecord[] {
+    const rows = this.db.query(`SELECT * FROM tasks WHERE status IN ('queued', 'running', 'retrying') ORDER BY created_at`).all() as TaskRow[];
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  /**
+   * Most recently updated tasks with one of the given statuses
+   */
+  list(statuses: TaskStatus[], pluginId?: string, limit = 100): TaskRecord[] {
+    const placeholders = statuses.map((_, i) => `$status${i}`).join(", ");
+    const params = Object.fromEntries(statuses.map((status, i) => [`$status${i}`, status]));
+    const rows = this.db.query(`
+      SELECT * FROM tasks
+      WHERE status IN (${placeholders}) AND ($pluginId IS NULL OR plugin_id = $pluginId)
+      ORDER BY updated_at DESC
+      LIMIT $limit
+    `).all({ ...params, $pluginId: pluginId ?? null, $limit: limit }) as TaskRow[];
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  private finish(id: string, status: TaskStatus, error: OracleError | null, txRid: string | null = null) {
+    const now = Date.now();
+    this.run(id, "finish", () => {
+      this.db.query(`
+        UPDATE tasks SET status = $status, tx_rid = COALESCE($txRid, tx_rid), error_type = $errorType,
+          error_context = $errorContext, updated_at = $now, finished_at = $now
+        WHERE id = $id
+      `).run({
+        $id: id,
+        $status: status,
+        $txRid: txRid,
+        $errorType: error?.type ?? null,
+        $errorContext: error?.context ?? null,
+        $now: now
+      });
+    });
+  }
+
+  // Columns added after the initial schema, applied to journals created by older versions
+  private migrate() {
+    const columns = (this.db.query(`PRAGMA table_info(tasks)`).all() as { name: string }[]).map((c) => c.name);
+    const additions: Record<string, string> = {
+      result: "BLOB",
+      peer_failures: "BLOB",
+      attempts: "INTEGER NOT NULL DEFAULT 0",
+      next_attempt_at: "INTEGER",
+    };
+
+    for (const [column, type] of Object.entries(additions)) {
+      if (!columns.includes(column)) {
+        this.db.exec(`ALTER TABLE tasks ADD COLUMN ${column} ${type}`);
+      }
+    }
+  }
+
+  // A journal write failure must not take down the task itself, so it is only logged
+  private run(id: string, operation: string, fn: () => void) {
+    try {
+      fn();
+    } catch (error) {
+      logger.error(`Task journal ${operation} failed`, { taskId: id, error });
+    }
+  }
+
+  // Unlike `run`, for reads and writes whose outcome the caller depends on
+  private query<T>(operation: string, fn: () => T): Result<T, OracleError> {
+    return Result.fromThrowable(fn, (error): OracleError => {
+      logger.error(`Task journal ${operation} failed`, { error });
+      return { type: "journal_error", context: `Task journal ${operation} failed: ${error}` };
+    })();
+  }
+
+  /**
+   * Decodes a blob column, a corrupt value is logged and treated as missing
+   */
+  private decodeColumn<T = unknown>(id: string, column: string, value: Uint8Array | null): T | null {
+    if (!value) return null;
+
+    const decoded = decode(Buffer.from(value));
+    if (decoded.isErr()) {
+      logger.error(`Task journal column ${column} could not be decoded`, { taskId: id, error: decoded.error });
+      return null;
+    }
+    return decoded.value as T;
+  }
+
+  private toRecord(row: TaskRow): TaskRecord {
+    return {
+      id: row.id,
+      pluginId: row.plugin_id,
+      phase: row.phase as TaskPhase,
+      status: row.status as TaskStatus,
+      input: this.decodeColumn(row.id, "input", row.input),
+      prepareResults: this.decodeColumn<JournaledPrepareResult[]>(row.id, "prepare_results", row.prepare_results),
+      peerFailures: this.decodeColumn<PeerFailure[]>(row.id, "peer_failures", row.peer_failures) ?? [],
+      validatedData: this.decodeColumn(row.id, "validated_data", row.validated_data),
+      result: this.decodeColumn(row.id, "result", row.result),
+      txRid: row.tx_rid,
+      error: row.error_type ? { type: row.error_type, context: row.error_context ?? undefined } as OracleError : null,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      finishedAt: row.finished_at
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, mock, test } from "bun:test";
+import type { TaskPriority } from "./TaskQueue";
+
+const config = {
+  id: "oracle-1",
+  taskQueue: { maxConcurrency: 1, defaultConcurrency: 2 },
+  plugins: { limited: { concurrency: 1 } } as Record<string, Record<string, unknown>>,
+};
+mock.module("../../config", () => ({ default: config }));
+
+const { TaskQueue } = await import("./TaskQueue");
+
+const queue = TaskQueue.getInstance();
+
+// A job that runs until it is released, recording when it started
+const job = (started: string[], name: string) => {
+  let release = () => { };
+  const done = new Promise<void>((resolve) => { release = resolve; });
+  return { fn: async () => { started.push(name); await done; return name; }, release: () => release() };
+}
+
+// Lets finished jobs hand their slots to waiting ones
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("TaskQueue", () => {
+  test("starts waiting attempts by priority, first in first out within a priority", async () => {
+    config.taskQueue.maxConcurrency = 1;
+    const started: string[] = [];
+    const blocker = job(started, "blocker");
+    const priorities: [string, TaskPriority][] = [["bulk-1", "bulk"], ["normal-1", "normal"], ["bulk-2", "bulk"], ["interactive-1", "interactive"], ["normal-2", "normal"]];
+    const jobs = priorities.map(([name]) => job(started, name));
+
+    const results = [queue.schedule("plugin", "bulk", blocker.fn)];
+    for (const [i, [, priority]] of priorities.entries()) {
+      results.push(queue.schedule("plugin", priority, jobs[i]!.fn));
+    }
+    expect(started).toEqual(["blocker"]);
+
+    blocker.release();
+    for (const waiting of jobs) waiting.release();
+    expect(await Promise.all(results)).toEqual(["blocker", "bulk-1", "normal-1", "bulk-2", "interactive-1", "normal-2"]);
+    expect(started).toEqual(["blocker", "interactive-1", "normal-1", "normal-2", "bulk-1", "bulk-2"]);
+  });
+
+  test("runs no more attempts of a plugin at a time than its concurrency", async () => {
+    config.taskQueue.maxConcurrency = 10;
+    const started: string[] = [];
+    const jobs = ["default-1", "default-2", "default-3"].map((name) => job(started, name));
+    const results = jobs.map((waiting) => queue.schedule("plugin", "normal", waiting.fn));
+    expect(started).toEqual(["default-1", "default-2"]);
+
+    jobs[0]!.release();
+    await settle();
+    expect(started).toEqual(["default-1", "default-2", "default-3"]);
+
+    for (const waiting of jobs) waiting.release();
+    await Promise.all(results);
+  });
+
+  test("uses the concurrency configured for a plugin, without holding up other plugins", async () => {
+    config.taskQueue.maxConcurrency = 10;
+    const started: string[] = [];
+    const limited = ["limited-1", "limited-2"].map((name) => job(started, name));
+    const other = job(started, "other");
+
+    const results = [
+      ...limited.map((waiting) => queue.schedule("limited", "interactive", waiting.fn)),
+      queue.schedule("other", "bulk", other.fn)
+    ];
+    expect(started).toEqual(["limited-1", "other"]);
+
+    limited[0]!.release();
+    await settle();
+    expect(started).toEqual(["limited-1", "other", "limited-2"]);
+
+    limited[1]!.release();
+    other.release();
+    await Promise.all(results);
+  });
+
+  test("frees the slot of an attempt that failed", async () => {
+    config.taskQueue.maxConcurrency = 1;
+    const failing = queue.schedule("plugin", "normal", async () => { throw new Error("failed"); });
+    const next = queue.schedule("plugin", "normal", async () => "next");
+
+    await expect(failing).rejects.toThrow("failed");
+    expect(await next).toBe("next");
+  });
+});
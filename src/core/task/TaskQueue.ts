@@ -0,0 +1,94 @@
+import config from "../../config";
+import { runningTasksGauge, taskQueueDepthGauge, taskQueueWaitTime } from "../../util/monitoring";
+
+/**
+ * Interactive requests jump ahead of everything else, bulk indexing runs last
+ */
+export type TaskPriority = "interactive" | "normal" | "bulk";
+
+const PRIORITIES: TaskPriority[] = ["interactive", "normal", "bulk"];
+
+type QueuedJob = {
+  pluginId: string;
+  priority: TaskPriority;
+  enqueuedAt: number;
+  start: () => Promise<void>;
+};
+
+/**
+ * Schedules the attempts of every task on this node. Waiting attempts start in priority order,
+ * first in first out within a priority, as long as neither the limit of their plugin nor the
+ * overall limit is reached. A plugin at its limit does not hold up the attempts of other plugins.
+ */
+export class TaskQueue {
+  private static instance: TaskQueue;
+  private queues = new Map<TaskPriority, QueuedJob[]>(PRIORITIES.map((priority) => [priority, []]));
+  private running = new Map<string, number>();
+  private totalRunning = 0;
+
+  private constructor() { }
+
+  static getInstance() {
+    if (!TaskQueue.instance) {
+      TaskQueue.instance = new TaskQueue();
+    }
+    return TaskQueue.instance;
+  }
+
+  /**
+   * Runs `fn` once the queue has room for it, resolving with its result
+   */
+  schedule<R>(pluginId: string, priority: TaskPriority, fn: () => Promise<R>): Promise<R> {
+    return new Promise<R>((resolve, reject) => {
+      this.queues.get(priority)!.push({
+        pluginId,
+        priority,
+        enqueuedAt: Date.now(),
+        start: () => fn().then(resolve, reject)
+      });
+      taskQueueDepthGauge.inc({ plugin_id: pluginId, priority });
+      this.dispatch();
+    });
+  }
+
+  private dispatch() {
+    for (const priority of PRIORITIES) {
+      const queue = this.queues.get(priority)!;
+      let i = 0;
+      while (i < queue.length && this.totalRunning < config.taskQueue.maxConcurrency) {
+        const job = queue[i]!;
+        if ((this.running.get(job.pluginId) ?? 0) >= this.concurrency(job.pluginId)) {
+          i++;
+          continue;
+        }
+
+        queue.splice(i, 1);
+        this.startJob(job);
+      }
+    }
+  }
+
+  private startJob(job: QueuedJob) {
+    taskQueueDepthGauge.dec({ plugin_id: job.pluginId, priority: job.priority });
+    taskQueueWaitTime.observe({ plugin_id: job.pluginId, priority: job.priority }, (Date.now() - job.enqueuedAt) / 1000);
+
+    this.running.set(job.pluginId, (this.running.get(job.pluginId) ?? 0) + 1);
+    this.totalRunning++;
+    runningTasksGauge.inc({ plugin_id: job.pluginId });
+
+    job.start().finally(() => {
+      this.running.set(job.pluginId, this.running.get(job.pluginId)! - 1);
+      this.totalRunning--;
+      runningTasksGauge.dec({ plugin_id: job.pluginId });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Attempts of the plugin allowed to run at the same time, configurable per plugin as `plugins.<id>.concurrency`
+   */
+  private concurrency(pluginId: string): number {
+    const pluginConcurrency = config.plugins?.[pluginId]?.concurrency as unknown;
+    return typeof pluginConcurrency === "number" && pluginConcurrency > 0 ? pluginConcurrency : config.taskQueue.defaultConcurrency;
+  }
+}
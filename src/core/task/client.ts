@@ -2,36 +2,102 @@ import type { Peer } from "../types/config/Peer";
 import type { ValidateRequest, ValidateResponse } from "../types/requests/ValidateRequest";
 import { decode, encode } from "../../util/encoder";
 import type { ProtocolPrepareResult } from "../types/Protocol";
-import type { PrepareResponse } from "../types/requests/PrepareRequest";
+import type { PrepareRequest, PrepareResponse } from "../types/requests/PrepareRequest";
+import type { HeartbeatRequest, HeartbeatResponse } from "../types/requests/HeartbeatRequest";
 import { err, ok, Result, ResultAsync } from "neverthrow";
 import type { OracleError } from "../../util/errors";
 import { logger } from "../../util/monitoring";
+import { peerClientTls, peerProtocol, sealEnvelope } from "../../util/peer-auth";
+import { checkVersions } from "../../util/version";
+import { traceHeaders, withSpan } from "../../util/tracing";
 
-export const requestPrepare = async <T, R>(peer: Peer, request: T): Promise<Result<ProtocolPrepareResult<R>, OracleError>> => {
-  const reqBody = encode(request);
+// Body of a response to a request the peer refused
+type PeerErrorResponse = {
+  error?: string;
+  context?: string;
+};
 
-  return await ResultAsync.fromPromise(
-    fetch(`http://${peer.address}/task/prepare`, {
-      method: "POST",
-      body: reqBody,
-      headers: {
-        "Content-Type": "application/json",
-      },
-    }),
-    (error): OracleError => ({
+/**
+ * Sends a signed request to a peer and parses its JSON response.
+ * The HTTP request is aborted once `timeoutMs` passed without a complete response.
+ */
+const postToPeer = async <R>(peer: Peer, path: string, request: unknown, timeoutMs: number): Promise<Result<R, OracleError>> => {
+  return withSpan(`POST ${path}`, { kind: "client", attributes: { "peer.id": peer.oracleId, "http.route": path } }, async () => {
+    const reqBody = encode(sealEnvelope(path, request));
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    const timedOut = (): OracleError => ({
       type: 'timeout',
-      context: `Failed to connect to peer ${peer.oracleId}: ${error}`
-    })
-  ).andThen((response) => {
-    return ResultAsync.fromPromise(
-      response.json() as Promise<PrepareResponse>,
-      (error): OracleError => ({
-        type: 'plugin_error',
-        context: `Failed to parse response from peer ${peer.oracleId}: ${error}`
-      })
-    );
-  }).andThen((resBody: PrepareResponse) => {
+      context: `Peer ${peer.oracleId} did not respond within ${timeoutMs}ms`
+    });
+
+    try {
+      return await ResultAsync.fromPromise(
+        fetch(`${peerProtocol()}://${peer.address}${path}`, {
+          method: "POST",
+          body: reqBody,
+          headers: {
+            "Content-Type": "application/json",
+            ...traceHeaders(),
+          },
+          tls: peerClientTls(),
+          signal: controller.signal,
+        }),
+        (error): OracleError => controller.signal.aborted ? timedOut() : {
+          type: 'timeout',
+          context: `Failed to connect to peer ${peer.oracleId}: ${error}`
+        }
+      ).andThen((response) => {
+        return ResultAsync.fromPromise(
+          response.json() as Promise<R>,
+          (error): OracleError => controller.signal.aborted ? timedOut() : {
+            type: 'decode_error',
+            context: `Failed to parse response from peer ${peer.oracleId}: ${error}`
+          }
+        );
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+  });
+}
+
+/**
+ * The error of a peer that refused the request itself, e.g. its envelope, before it got to the task in it
+ */
+const requestRefusal = (peer: Peer, resBody: PeerErrorResponse): OracleError | null => {
+  if (resBody.error !== "unauthorized" && resBody.error !== "decode_error") {
+    return null;
+  }
+  return { type: resBody.error, context: `Peer ${peer.oracleId} refused the request: ${resBody.context}` };
+}
+
+export const requestPrepare = async <T, R>(peer: Peer, request: PrepareRequest<T>, timeoutMs: number): Promise<Result<ProtocolPrepareResult<R>, OracleError>> => {
+  const response = await postToPeer<PrepareResponse>(peer, "/task/prepare", request, timeoutMs);
+
+  return response.andThen((resBody: PrepareResponse & PeerErrorResponse) => {
     logger.info(`Prepare response from peer ${peer.oracleId}: ${JSON.stringify(resBody)}`);
+    if (resBody.error === "version_mismatch") {
+      return err<ProtocolPrepareResult<R>, OracleError>({
+        type: 'version_mismatch',
+        context: `Peer ${peer.oracleId} refused the task: ${resBody.context}`
+      });
+    }
+
+    const refusal = requestRefusal(peer, resBody);
+    if (refusal) {
+      return err<ProtocolPrepareResult<R>, OracleError>(refusal);
+    }
+
+    const versionResult = checkVersions(request.pluginId, request, resBody);
+    if (versionResult.isErr()) {
+      return err<ProtocolPrepareResult<R>, OracleError>({
+        type: 'version_mismatch',
+        context: `Peer ${peer.oracleId}: ${versionResult.error.context}`
+      });
+    }
+
     if (!resBody.encodedData) {
       return err<ProtocolPrepareResult<R>, OracleError>({
         type: 'plugin_error',
@@ -39,47 +105,54 @@ export const requestPrepare = async <T, R>(peer: Peer, request: T): Promise<Resu
       });
     }
 
-    const data = decode(Buffer.from(resBody.encodedData, 'hex')) as R;
-
-    return ok<ProtocolPrepareResult<R>, OracleError>({
-      data,
+    const encodedData = resBody.encodedData;
+    return decode(Buffer.from(encodedData, 'hex')).map((data): ProtocolPrepareResult<R> => ({
+      data: data as R,
       signatureData: {
         signature: resBody.signature,
-        encodedData: resBody.encodedData
+        encodedData,
+        expiresAt: resBody.expiresAt
       },
-      encodedData: resBody.encodedData
-    });
+      encodedData
+    }));
   });
 };
 
-export const requestValidate = async (peer: Peer, request: ValidateRequest): Promise<Result<unknown, OracleError>> => {
-  const reqBody = encode(request);
+export const requestValidate = async (peer: Peer, request: ValidateRequest, timeoutMs: number): Promise<Result<unknown, OracleError>> => {
+  const response = await postToPeer<ValidateResponse>(peer, "/task/validate", request, timeoutMs);
 
-  return await ResultAsync.fromPromise(
-    fetch(`http://${peer.address}/task/validate`, {
-      method: "POST",
-      body: reqBody,
-      headers: {
-        "Content-Type": "application/json",
-      },
-    }),
-    (error): OracleError => ({
-      type: 'timeout',
-      context: `Failed to connect to peer ${peer.oracleId}: ${error}`
-    })
-  ).andThen((response) => {
-    return ResultAsync.fromPromise(
-      response.json() as Promise<ValidateResponse>,
-      (error): OracleError => ({
-        type: 'plugin_error',
-        context: `Failed to parse response from peer ${peer.oracleId}: ${error}`
-      })
-    );
-  }).andThen((resBody: ValidateResponse) => {
-    return resBody.encodedData ? ok<unknown, OracleError>(decode(Buffer.from(resBody.encodedData, 'hex'))) : err<unknown, OracleError>({
+  return response.andThen((resBody: ValidateResponse & PeerErrorResponse) => {
+    const refusal = requestRefusal(peer, resBody);
+    if (refusal) {
+      return err<unknown, OracleError>(refusal);
+    }
+
+    return resBody.encodedData ? decode(Buffer.from(resBody.encodedData, 'hex')) : err<unknown, OracleError>({
       type: 'plugin_error',
       context: `Failed to validate task in peer ${peer.oracleId}`
     });
   });
 };
 
+export const requestHeartbeat = async (peer: Peer, request: HeartbeatRequest, timeoutMs: number): Promise<Result<HeartbeatResponse, OracleError>> => {
+  return postToPeer<HeartbeatResponse>(peer, "/leader/heartbeat", request, timeoutMs);
+};
+
+/**
+ * Checks that a peer's internal server is up, used to measure its availability and latency
+ */
+export const requestHealth = async (peer: Peer, timeoutMs: number): Promise<Result<void, OracleError>> => {
+  return ResultAsync.fromPromise(
+    fetch(`${peerProtocol()}://${peer.address}/health`, {
+      tls: peerClientTls(),
+      signal: AbortSignal.timeout(timeoutMs),
+    }),
+    (error): OracleError => ({
+      type: 'timeout',
+      context: `Failed to reach peer ${peer.oracleId}: ${error}`
+    })
+  ).andThen((response) => response.ok
+    ? ok<void, OracleError>(undefined)
+    : err<void, OracleError>({ type: 'plugin_error', context: `Peer ${peer.oracleId} reported status ${response.status}` })
+  );
+};
@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import { findConsensus } from "./consensus";
+
+type Entry = { publicKey: string; data: unknown };
+
+const entry = (publicKey: string, data: unknown): Entry => ({ publicKey, data });
+const keys = (entries: Entry[]) => entries.map((e) => e.publicKey).sort();
+const consensus = (entries: Entry[], preferredKey = "a") => findConsensus(entries, (e) => e.data, preferredKey);
+
+describe("findConsensus", () => {
+  test("lets every node agree when all prepared the same data", () => {
+    const result = consensus([entry("a", { amount: 1n }), entry("b", { amount: 1n }), entry("c", { amount: 1n })])._unsafeUnwrap();
+    expect(keys(result.agreeing)).toEqual(["a", "b", "c"]);
+    expect(result.dissenting).toEqual([]);
+  });
+
+  test("excludes the nodes that prepared something else than the majority", () => {
+    const result = consensus([entry("a", 1), entry("b", 2), entry("c", 1)])._unsafeUnwrap();
+    expect(keys(result.agreeing)).toEqual(["a", "c"]);
+    expect(keys(result.dissenting)).toEqual(["b"]);
+  });
+
+  test("picks the largest group even without a majority, the signature threshold is up to the caller", () => {
+    const result = consensus([entry("a", 1), entry("b", 2), entry("c", 2), entry("d", 3), entry("e", 4)])._unsafeUnwrap();
+    expect(keys(result.agreeing)).toEqual(["b", "c"]);
+    expect(keys(result.dissenting)).toEqual(["a", "d", "e"]);
+  });
+
+  test("breaks a tie in favour of the preferred node", () => {
+    const entries = [entry("a", 1), entry("b", 1), entry("c", 2), entry("d", 2)];
+    expect(keys(consensus(entries, "a")._unsafeUnwrap().agreeing)).toEqual(["a", "b"]);
+    expect(keys(consensus(entries, "d")._unsafeUnwrap().agreeing)).toEqual(["c", "d"]);
+  });
+
+  test("breaks a tie without the preferred node the same way regardless of the order of entries", () => {
+    const entries = [entry("a", 1), entry("b", 2), entry("c", 3)];
+    const agreeing = keys(consensus(entries, "z")._unsafeUnwrap().agreeing);
+    expect(keys(consensus([...entries].reverse(), "z")._unsafeUnwrap().agreeing)).toEqual(agreeing);
+  });
+
+  test("only compares the part of the data selected by the view", () => {
+    const entries = [entry("a", { amount: 1, fetchedAt: 10 }), entry("b", { amount: 1, fetchedAt: 11 })];
+    const result = findConsensus(entries, (e) => (e.data as { amount: number }).amount, "a")._unsafeUnwrap();
+    expect(keys(result.agreeing)).toEqual(["a", "b"]);
+  });
+
+  test("compares the canonical encoding, so key order does not matter but value types do", () => {
+    const sameKeys = consensus([entry("a", { x: 1, y: 2 }), entry("b", { y: 2, x: 1 })])._unsafeUnwrap();
+    expect(sameKeys.dissenting).toEqual([]);
+
+    const types = consensus([entry("a", 1), entry("b", 1n), entry("c", "1")])._unsafeUnwrap();
+    expect(keys(types.agreeing)).toEqual(["a"]);
+    expect(keys(types.dissenting)).toEqual(["b", "c"]);
+  });
+
+  test("fails on data that cannot be encoded", () => {
+    const error = consensus([entry("a", 1), entry("b", () => 1)])._unsafeUnwrapErr();
+    expect(error.type).toBe("consensus_error");
+    expect(error.context).toContain("of b");
+  });
+
+  test("fails without any prepared data", () => {
+    expect(consensus([])._unsafeUnwrapErr().type).toBe("consensus_error");
+  });
+});
@@ -0,0 +1,57 @@
+import { err, ok, Result } from "neverthrow";
+import { hashData } from "../../util/crypto";
+import { encode } from "../../util/encoder";
+import type { OracleError } from "../../util/errors";
+
+export type Consensus<T> = {
+  /** Entries whose prepared data matches the majority value */
+  agreeing: T[];
+  /** Entries whose prepared data differs from the majority value */
+  dissenting: T[];
+};
+
+/**
+ * Groups entries by the canonical hash of their prepared data and selects the largest group.
+ * Ties are broken in favour of the group containing `preferredKey`, then by hash, so every
+ * node arrives at the same result for the same inputs.
+ *
+ * @param entries The prepared results of all nodes
+ * @param view Selects the part of an entry's prepared data that nodes have to agree on
+ * @param preferredKey Public key of the node whose group wins a tie
+ */
+export const findConsensus = <T extends { publicKey: string }>(
+  entries: T[],
+  view: (entry: T) => unknown,
+  preferredKey: string
+): Result<Consensus<T>, OracleError> => {
+  const groups = new Map<string, T[]>();
+  for (const entry of entries) {
+    const hash = Result.fromThrowable(
+      () => hashData(encode(view(entry))).toString('hex'),
+      (error): OracleError => ({ type: "consensus_error", context: `Failed to hash prepared data of ${entry.publicKey}: ${error}` })
+    )();
+    if (hash.isErr()) {
+      return err(hash.error);
+    }
+
+    groups.set(hash.value, [...(groups.get(hash.value) ?? []), entry]);
+  }
+
+  const containsPreferred = (group: T[]) => group.some((entry) => entry.publicKey === preferredKey);
+  const ranked = [...groups.entries()].sort(([hashA, groupA], [hashB, groupB]) => {
+    if (groupA.length !== groupB.length) return groupB.length - groupA.length;
+    if (containsPreferred(groupA) !== containsPreferred(groupB)) return containsPreferred(groupA) ? -1 : 1;
+    return hashA.localeCompare(hashB);
+  });
+
+  const majority = ranked[0];
+  if (!majority) {
+    return err({ type: "consensus_error", context: "No prepared data to agree on" });
+  }
+
+  const [, agreeing] = majority;
+  return ok({
+    agreeing,
+    dissenting: entries.filter((entry) => !agreeing.includes(entry)),
+  });
+}
@@ -0,0 +1,65 @@
+import { err, ok, Result } from "neverthrow";
+import config from "../../config";
+import { hashData } from "../../util/crypto";
+import { encode } from "../../util/encoder";
+import type { OracleError } from "../../util/errors";
+import { logger } from "../../util/monitoring";
+import type { IdempotencyClaim } from "../types/TaskRecord";
+import { TaskJournal } from "./TaskJournal";
+
+const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+const MAX_KEY_LENGTH = 255;
+
+export type IdempotentRequest = {
+  key: string;
+  /** Hash of the plugin id and input, a key reused for a different request is refused */
+  requestHash: string;
+};
+
+/**
+ * Reads the client's Idempotency-Key header. Without it, a key is derived from the request content
+ * when `idempotency.deriveFromContent` is set, so identical requests map to the same task.
+ */
+export const resolveIdempotencyKey = (req: Request, pluginId: string, input: unknown): Result<IdempotentRequest | null, OracleError> => {
+  const header = req.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (header === null && !config.idempotency.deriveFromContent) {
+    return ok(null);
+  }
+
+  if (header !== null && (header.length === 0 || header.length > MAX_KEY_LENGTH)) {
+    return err({ type: "bad_input", context: `${IDEMPOTENCY_KEY_HEADER} must be between 1 and ${MAX_KEY_LENGTH} characters` });
+  }
+
+  const requestHash = Result.fromThrowable(
+    () => hashData(encode({ pluginId, input })).toString("hex"),
+    (error): OracleError => ({ type: "bad_input", context: `Failed to hash task request: ${error}` })
+  )();
+
+  // Prefixed, so a client key can never collide with a derived one
+  return requestHash.map((hash) => ({
+    key: header !== null ? `client:${header}` : `content:${hash}`,
+    requestHash: hash
+  }));
+}
+
+/**
+ * Claims the key of the request for `taskId`. Returns the earlier claim when the key belongs to another task,
+ * or null when it now belongs to `taskId`. A claim whose task never started, e.g. because the node stopped
+ * right after claiming it, is taken over once it is older than `idempotency.claimGraceMs`.
+ */
+export const claimIdempotencyKey = (request: IdempotentRequest, taskId: string): Result<IdempotencyClaim | null, OracleError> => {
+  const journal = TaskJournal.getInstance();
+  return journal.claimIdempotencyKey(request.key, taskId, request.requestHash).andThen((claim) => {
+    if (!claim || !isAbandoned(claim)) {
+      return ok(claim);
+    }
+
+    logger.warn(`Idempotency key of task ${claim.taskId} was never used to start it, claiming it for task ${taskId}`);
+    return journal.reclaimIdempotencyKey(request.key, claim.taskId, taskId, request.requestHash)
+      .map((reclaimed) => reclaimed ? null : claim);
+  });
+}
+
+const isAbandoned = (claim: IdempotencyClaim): boolean => {
+  return claim.claimedAt < Date.now() - config.idempotency.claimGraceMs && !TaskJournal.getInstance().get(claim.taskId);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import type { IPlugin } from "../interfaces/IPlugin";
+import { createTaskContext } from "./nonce";
+
+type Prepared = { amount: number; fetchedAt: number };
+
+// Nodes only have to agree on the amount, each fetched it at its own time
+const plugin = {
+  consensusData: (data: Prepared) => data.amount
+} as unknown as IPlugin<unknown, unknown, unknown, unknown>;
+
+const withoutConsensusData = {} as IPlugin<unknown, unknown, unknown, unknown>;
+
+describe("createTaskContext", () => {
+  test("gives the same nonce for the same task and agreed data", () => {
+    const first = createTaskContext(plugin, "task-1", { amount: 10, fetchedAt: 1 });
+    const second = createTaskContext(plugin, "task-1", { amount: 10, fetchedAt: 2 });
+    expect(first.taskId).toBe("task-1");
+    expect(second.nonce).toEqual(first.nonce);
+  });
+
+  test("gives another nonce for another task or other agreed data", () => {
+    const nonce = createTaskContext(plugin, "task-1", { amount: 10, fetchedAt: 1 }).nonce;
+    expect(createTaskContext(plugin, "task-2", { amount: 10, fetchedAt: 1 }).nonce).not.toEqual(nonce);
+    expect(createTaskContext(plugin, "task-1", { amount: 11, fetchedAt: 1 }).nonce).not.toEqual(nonce);
+  });
+
+  test("uses all prepared data when the plugin does not narrow what nodes agree on", () => {
+    const nonce = createTaskContext(withoutConsensusData, "task-1", { amount: 10, fetchedAt: 1 }).nonce;
+    expect(createTaskContext(withoutConsensusData, "task-1", { fetchedAt: 1, amount: 10 }).nonce).toEqual(nonce);
+    expect(createTaskContext(withoutConsensusData, "task-1", { amount: 10, fetchedAt: 2 }).nonce).not.toEqual(nonce);
+  });
+});
@@ -0,0 +1,16 @@
+import type { IPlugin } from "../interfaces/IPlugin";
+import type { TaskContext } from "../types/TaskContext";
+import { hashData } from "../../util/crypto";
+import { encode } from "../../util/encoder";
+
+/**
+ * Builds the context of a task from a node's own prepared data. Only the part nodes have to agree on
+ * goes into the nonce, so it comes out the same on every node in the consensus.
+ */
+export const createTaskContext = (plugin: IPlugin<unknown, unknown, unknown, unknown>, taskId: string, preparedData: unknown): TaskContext => {
+  const agreedData = plugin.consensusData ? plugin.consensusData(preparedData) : preparedData;
+  return {
+    taskId,
+    nonce: hashData(encode({ taskId, data: agreedData }))
+  };
+}
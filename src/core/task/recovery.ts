@@ -0,0 +1,73 @@
+import { logger } from "../../util/monitoring";
+import { sleep } from "../../util/throttle";
+import { LeaderElection } from "../leader/LeaderElection";
+import { PluginRegistry } from "../plugin/PluginRegistry";
+import type { TaskRecord } from "../types/TaskRecord";
+import { Task } from "./Task";
+import { TaskJournal } from "./TaskJournal";
+
+/**
+ * Resumes or aborts tasks that were still running when the node stopped or lost leadership.
+ *
+ * - Tasks that reached the execute phase are re-submitted with their persisted signed data.
+ * - Tasks in an earlier phase, still queued, or waiting for a retry, have not touched the chain yet, so the primary restarts them from prepare.
+ *   A task waiting for a retry is restarted once its retry is due.
+ * - Anything else, or any task while this node is not the leader, is aborted.
+ *
+ * Tasks are recovered concurrently, each attempt waiting for its turn in the task queue. Tasks this process
+ * is still running, e.g. from an earlier leadership term, are left alone.
+ */
+export const recoverTasks = async () => {
+  const journal = TaskJournal.getInstance();
+  const unfinished = journal.listUnfinished().filter((record) => !Task.isInFlight(record.id));
+  if (unfinished.length === 0) return;
+
+  logger.info(`Recovering ${unfinished.length} unfinished tasks`);
+
+  await Promise.all(unfinished.map(async (record) => {
+    if (!PluginRegistry.getInstance().has(record.pluginId)) {
+      logger.warn(`Aborting task ${record.id}: plugin ${record.pluginId} is not registered`);
+      journal.abort(record.id, `Plugin ${record.pluginId} not registered`);
+      return;
+    }
+
+    const result = await recoverTask(record);
+    if (result === null) {
+      logger.warn(`Aborting task ${record.id} interrupted during ${record.phase} phase`);
+      journal.abort(record.id, `Interrupted during ${record.phase} phase`);
+      return;
+    }
+
+    if (result.isErr()) {
+      logger.error(`Failed to recover task ${record.id}: ${result.error.type} > ${result.error.context}`);
+    } else {
+      logger.info(`Recovered task ${record.id} for plugin ${record.pluginId}`);
+    }
+  }));
+}
+
+const recoverTask = async (record: TaskRecord) => {
+  // Only the leader submits, so another node taking over does not submit the same task twice
+  if (!LeaderElection.getInstance().isLeader()) {
+    return null;
+  }
+
+  const task = new Task(record.pluginId, record.input, record.id);
+
+  if (record.phase === "execute" && record.validatedData) {
+    logger.info(`Resuming execution of task ${record.id}`);
+    return task.resumeExecution(record.validatedData);
+  }
+
+  const retryDelayMs = (record.nextAttemptAt ?? 0) - Date.now();
+  if (retryDelayMs > 0) {
+    logger.info(`Restarting task ${record.id} once its retry is due in ${retryDelayMs}ms`);
+    await sleep(retryDelayMs);
+    if (!LeaderElection.getInstance().isLeader()) {
+      return null;
+    }
+  }
+
+  logger.info(`Restarting task ${record.id} from the prepare phase`);
+  return task.run();
+}
@@ -0,0 +1,14 @@
+import config from "../../config";
+import type { OracleError } from "../../util/errors";
+
+export const isRetryable = (error: OracleError): boolean => {
+  return config.retry.retryableErrors.includes(error.type);
+}
+
+/**
+ * Exponential backoff before the attempt following `attempt` (1-based)
+ */
+export const retryDelayMs = (attempt: number): number => {
+  const { initialDelayMs, maxDelayMs, multiplier } = config.retry;
+  return Math.min(initialDelayMs * Math.pow(multiplier, attempt - 1), maxDelayMs);
+}
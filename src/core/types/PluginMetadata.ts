@@ -1,3 +1,7 @@
 export type PluginMetadata = {
   id: string;
-}
\ No newline at end of file
+  /** Semantic version, nodes only work together on a task when the major versions match */
+  version: string;
+  /** Postchain operations the plugin builds, used when no signing policy is configured for it */
+  allowedOperations?: string[];
+}
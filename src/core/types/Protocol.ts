@@ -1,6 +1,7 @@
 export type SignatureData = {
   signature: string;
   encodedData: string;
+  expiresAt: number;
 }
 
 export type PrepareResult<T> = {
@@ -0,0 +1,11 @@
+/**
+ * What every node knows about the task it processes or validates a transaction for
+ */
+export type TaskContext = {
+  taskId: string;
+  /**
+   * Derived from the task id and the prepared data the nodes agreed on, so every node reproduces
+   * the same transaction. A retry of the task resubmits the same transaction, a new task gets a new nonce.
+   */
+  nonce: Buffer;
+};
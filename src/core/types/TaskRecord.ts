@@ -0,0 +1,49 @@
+import type { OracleError } from "../../util/errors";
+
+export type TaskPhase = "prepare" | "process" | "validate" | "execute";
+
+export type TaskStatus = "queued" | "running" | "retrying" | "completed" | "skipped" | "failed" | "dead_lettered" | "aborted" | "discarded";
+
+export type JournaledPrepareResult = {
+  publicKey: string;
+  data: unknown;
+};
+
+export type PeerFailure = {
+  publicKey: string;
+  phase: TaskPhase;
+  error: OracleError;
+};
+
+export type TaskRecord = {
+  id: string;
+  pluginId: string;
+  phase: TaskPhase;
+  status: TaskStatus;
+  input: unknown;
+  prepareResults: JournaledPrepareResult[] | null;
+  /** Peers that failed to take part in a phase without failing the task */
+  peerFailures: PeerFailure[];
+  /** The fully validated (signed) data, persisted right before it is executed */
+  validatedData: unknown;
+  /** The plugin output returned by execute */
+  result: unknown;
+  txRid: string | null;
+  error: OracleError | null;
+  /** Number of attempts started so far */
+  attempts: number;
+  /** When the next attempt is due while the task is waiting to be retried */
+  nextAttemptAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+  finishedAt: number | null;
+};
+
+/**
+ * Task an idempotency key was first used for, with the hash of the request that used it
+ */
+export type IdempotencyClaim = {
+  taskId: string;
+  requestHash: string;
+  claimedAt: number;
+};
@@ -0,0 +1,23 @@
+import type { PeerFailure } from "./TaskRecord";
+
+export type SimulatedPrepareResult = {
+  publicKey: string;
+  data: unknown;
+  /** Whether the node's prepared data matched the majority */
+  agreed: boolean;
+};
+
+/**
+ * Outcome of running a task up to, but not including, its execution
+ */
+export type TaskSimulation = {
+  id: string;
+  pluginId: string;
+  blockchainRid: Buffer;
+  operations: { name: string; args: unknown[] }[];
+  /** Public keys of the nodes that signed the transaction */
+  signers: Buffer[];
+  txRid: string;
+  prepareResults: SimulatedPrepareResult[];
+  peerFailures: PeerFailure[];
+};
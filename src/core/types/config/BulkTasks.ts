@@ -0,0 +1,8 @@
+export type BulkTasksConfig = {
+  /** Maximum number of requests in one `POST /tasks` call */
+  maxRequests: number;
+  /** Number of tasks of one call running at the same time */
+  concurrency: number;
+  /** Maximum number of requests merged into a single transaction */
+  maxMergeSize: number;
+};
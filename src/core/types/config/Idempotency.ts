@@ -0,0 +1,8 @@
+export type IdempotencyConfig = {
+  /** How long a key maps to its task, repeats after that create a new task */
+  retentionMs: number;
+  /** Derive a key from the plugin id and input when a request has no Idempotency-Key header */
+  deriveFromContent: boolean;
+  /** How long a key stays claimed for a task that was never started, e.g. when the node stopped right after claiming it */
+  claimGraceMs: number;
+};
@@ -0,0 +1,8 @@
+export type LeaderElectionConfig = {
+  enabled: boolean;
+  /** Whether this node may become the leader, other candidates are the peers marked as `coordinator` */
+  candidate?: boolean;
+  /** How long leadership is held after the last heartbeat round that reached enough peers */
+  leaseMs?: number;
+  heartbeatIntervalMs?: number;
+};
@@ -2,4 +2,6 @@ export type Peer = {
   oracleId: string;
   address: string;
   publicKey: string;
+  /** Whether the peer may coordinate tasks, i.e. send prepare and validate requests to this node */
+  coordinator?: boolean;
 };
@@ -0,0 +1,9 @@
+export type PeerHealthConfig = {
+  heartbeatIntervalMs: number;
+  /** Number of most recent requests the score is computed from */
+  windowSize: number;
+  /** Peers scoring below this are skipped in the prepare phase while enough healthy peers remain */
+  minScore: number;
+  /** How long a peer that prepared divergent data is penalized */
+  divergencePenaltyMs: number;
+};
@@ -0,0 +1,12 @@
+/**
+ * TLS between oracle nodes. Paths point to PEM files.
+ */
+export type PeerTlsConfig = {
+  /** Certificate presented by this node, both as server and as client (mTLS) */
+  cert: string;
+  key: string;
+  /** CA used to verify the other nodes, defaults to the system CAs */
+  ca?: string;
+  /** Reject peers that do not present a certificate signed by `ca` */
+  requireClientCert?: boolean;
+};
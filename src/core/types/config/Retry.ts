@@ -0,0 +1,12 @@
+import type { OracleError } from "../../../util/errors";
+
+export type RetryConfig = {
+  /** Attempts including the first one before a task is dead-lettered */
+  maxAttempts: number;
+  /** Delay before the second attempt, doubled (by `multiplier`) for every further attempt */
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  /** Error types worth another attempt, anything else fails the task right away */
+  retryableErrors: OracleError["type"][];
+};
@@ -0,0 +1,4 @@
+export type TaskJournalConfig = {
+  /** How long completed and discarded tasks stay in the journal, unfinished and failed ones are kept until they are handled */
+  retentionMs: number;
+};
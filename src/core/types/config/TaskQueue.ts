@@ -0,0 +1,6 @@
+export type TaskQueueConfig = {
+  /** Maximum number of task attempts running at the same time across all plugins */
+  maxConcurrency: number;
+  /** Attempts of one plugin running at the same time, unless `plugins.<id>.concurrency` is set */
+  defaultConcurrency: number;
+};
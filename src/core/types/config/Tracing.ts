@@ -0,0 +1,8 @@
+export type TracingConfig = {
+  /** OTLP/HTTP endpoint finished spans are posted to as JSON, e.g. http://collector:4318/v1/traces */
+  collectorUrl?: string;
+  /** File finished spans are appended to, one OTLP JSON export request per line */
+  filePath?: string;
+  /** How often finished spans are exported */
+  exportIntervalMs?: number;
+};
@@ -0,0 +1,14 @@
+import type { OracleError } from "../../../util/errors";
+
+/**
+ * Outcome of one request of a `POST /tasks` call, in the order of the requests
+ */
+export type BulkTaskResult = {
+  index: number;
+  /** Id of the task that ran the request, shared by requests merged into one transaction */
+  id: string | null;
+  /** Indexes of the other requests submitted in the same transaction */
+  mergedWith: number[];
+  result?: unknown;
+  error?: OracleError;
+};
@@ -0,0 +1,9 @@
+export type HeartbeatRequest = {
+  /** Public key of the node the sender currently considers the leader */
+  leader: string | null;
+};
+
+export type HeartbeatResponse = {
+  oracleId: string;
+  leader: string | null;
+};
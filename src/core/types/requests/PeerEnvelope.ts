@@ -0,0 +1,14 @@
+/**
+ * A request between oracle nodes, signed by the sending node.
+ * The signature covers the endpoint path, so an envelope cannot be replayed against another endpoint.
+ */
+export type PeerEnvelope<T> = {
+  /** Public key of the sending node */
+  sender: string;
+  /** Milliseconds since epoch at which the envelope was sealed */
+  timestamp: number;
+  /** Random value, unique per envelope */
+  nonce: string;
+  payload: T;
+  signature: string;
+};
@@ -1,9 +1,17 @@
 export type PrepareRequest<T> = {
   pluginId: string;
+  /** Id of the task on the coordinating node, bound into the signature over the prepared data */
+  taskId: string;
   input: T;
+  protocolVersion: number;
+  pluginVersion: string;
 }
 
 export type PrepareResponse = {
   encodedData: string;
   signature: string;
-}
\ No newline at end of file
+  /** Milliseconds since epoch after which the signature is no longer accepted */
+  expiresAt: number;
+  protocolVersion: number;
+  pluginVersion: string;
+}
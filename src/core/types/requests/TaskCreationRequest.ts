@@ -1,4 +1,6 @@
 export interface TaskCreationRequest {
   pluginId: string;
   input: unknown;
+  /** Return the task id immediately instead of waiting for the task to finish */
+  async?: boolean;
 }
@@ -0,0 +1,4 @@
+export interface TaskSimulationRequest {
+  pluginId: string;
+  input: unknown;
+}
@@ -1,10 +1,13 @@
 export type ValidateRequest = {
   pluginId: string;
+  taskId: string;
   input: unknown;
   preparedData: unknown;
   signature: string;
+  /** Expiry the prepared data was signed with */
+  expiresAt: number;
 };
 
 export type ValidateResponse = {
   encodedData?: string;
-}
\ No newline at end of file
+}
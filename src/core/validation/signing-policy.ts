@@ -0,0 +1,123 @@
+import { err, ok, type Result } from "neverthrow";
+import type { GTX, RawGtv } from "postchain-client";
+import config from "../../config";
+import type { OracleError } from "../../util/errors";
+import type { PluginMetadata } from "../types/PluginMetadata";
+
+export type ArgShape = "any" | "null" | "boolean" | "string" | "integer" | "bigint" | "bytes" | "array" | "dict";
+
+export type AllowedOperation = {
+  name: string;
+  /** Shape of every argument, any number of arguments of any shape is accepted when omitted */
+  args?: ArgShape[];
+};
+
+/**
+ * Operations a plugin may get signed. Configured per plugin under `plugins.<id>.allowedOperations`,
+ * either as plain operation names or as `{ name, args }` entries:
+ *
+ * ```yaml
+ * plugins:
+ *   solana-mega-forwarder:
+ *     allowedOperations:
+ *       - solana.megadata.register_token
+ *       - name: solana.megadata.update_metadata
+ *         args: [integer, string, string, string]
+ * ```
+ *
+ * Plugins without configured operations fall back to the ones declared in their metadata.
+ */
+export type SigningPolicy = AllowedOperation[];
+
+const ARG_SHAPES: ArgShape[] = ["any", "null", "boolean", "string", "integer", "bigint", "bytes", "array", "dict"];
+
+const policies = new Map<string, Result<SigningPolicy, OracleError>>();
+
+export const getSigningPolicy = (metadata: PluginMetadata): Result<SigningPolicy, OracleError> => {
+  let policy = policies.get(metadata.id);
+  if (!policy) {
+    policy = loadSigningPolicy(metadata);
+    policies.set(metadata.id, policy);
+  }
+  return policy;
+}
+
+/**
+ * Whether an operation name is allowed for the plugin at all, regardless of its arguments
+ */
+export const isOperationAllowed = (metadata: PluginMetadata, opName: string): boolean => {
+  const policy = getSigningPolicy(metadata);
+  return policy.isOk() && policy.value.some((operation) => operation.name === opName);
+}
+
+/**
+ * Refuses any GTX containing an operation the plugin is not allowed to get signed
+ */
+export const checkSigningPolicy = (metadata: PluginMetadata, tx: GTX): Result<void, OracleError> => {
+  const policy = getSigningPolicy(metadata);
+  if (policy.isErr()) {
+    return err(policy.error);
+  }
+
+  for (const [i, operation] of tx.operations.entries()) {
+    const candidates = policy.value.filter((allowed) => allowed.name === operation.opName);
+    if (candidates.length === 0) {
+      return err({ type: "policy_violation", context: `Operation ${i} (${operation.opName}) is not allowed for plugin ${metadata.id}` });
+    }
+
+    if (!candidates.some((allowed) => matchesShape(operation.args, allowed.args))) {
+      return err({ type: "policy_violation", context: `Arguments of operation ${i} (${operation.opName}) do not match the allowed shape for plugin ${metadata.id}` });
+    }
+  }
+
+  return ok();
+}
+
+const loadSigningPolicy = (metadata: PluginMetadata): Result<SigningPolicy, OracleError> => {
+  const configured = config.plugins?.[metadata.id]?.allowedOperations as unknown;
+  if (configured === undefined) {
+    return ok((metadata.allowedOperations ?? []).map((name) => ({ name })));
+  }
+
+  if (!Array.isArray(configured)) {
+    return err({ type: "policy_violation", context: `allowedOperations of plugin ${metadata.id} must be a list` });
+  }
+
+  const policy: SigningPolicy = [];
+  for (const entry of configured) {
+    if (typeof entry === "string") {
+      policy.push({ name: entry });
+      continue;
+    }
+
+    const { name, args } = (entry ?? {}) as { name?: unknown; args?: unknown };
+    if (typeof name !== "string") {
+      return err({ type: "policy_violation", context: `Invalid allowed operation of plugin ${metadata.id}: ${JSON.stringify(entry)}` });
+    }
+
+    if (args !== undefined && (!Array.isArray(args) || !args.every((arg) => ARG_SHAPES.includes(arg)))) {
+      return err({ type: "policy_violation", context: `Invalid argument shapes for ${name} of plugin ${metadata.id}, expected a list of ${ARG_SHAPES.join(", ")}` });
+    }
+
+    policy.push({ name, args: args as ArgShape[] | undefined });
+  }
+
+  return ok(policy);
+}
+
+const matchesShape = (args: RawGtv[], shapes: ArgShape[] | undefined): boolean => {
+  if (!shapes) return true;
+  if (args.length !== shapes.length) return false;
+  return shapes.every((shape, i) => shape === "any" || shapeOf(args[i]!) === shape);
+}
+
+const shapeOf = (value: RawGtv): ArgShape => {
+  if (value === null) return "null";
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "string") return "string";
+  if (typeof value === "number") return "integer";
+  if (typeof value === "bigint") return "bigint";
+  if (Buffer.isBuffer(value)) return "bytes";
+  if (Array.isArray(value)) return "array";
+  return "dict";
+}
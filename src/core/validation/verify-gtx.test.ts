@@ -0,0 +1,86 @@
+import { describe, expect, mock, test } from "bun:test";
+import { randomBytes } from "crypto";
+import { gtx, type GTX } from "postchain-client";
+import type { GtxExpectation } from "./verify-gtx";
+
+const ownKey = randomBytes(33).toString("hex");
+const peerKey = randomBytes(33).toString("hex");
+
+mock.module("../../config", () => ({
+  default: { publicKey: ownKey, peers: [{ oracleId: "peer", publicKey: peerKey }] }
+}));
+
+// Imported once the config is mocked, ANY_ARG is read from the module to keep its unique symbol type
+const verification = await import("./verify-gtx");
+const { matchArg, verifyGtx } = verification;
+
+const blockchainRid = Buffer.alloc(32, 1);
+
+const buildTx = (operations: { opName: string; args: unknown[] }[], signers = [ownKey, peerKey], rid = blockchainRid): GTX => {
+  let tx = gtx.emptyGtx(rid);
+  for (const { opName, args } of operations) {
+    tx = gtx.addTransactionToGtx(opName, args as never, tx);
+  }
+  return { ...tx, signers: signers.map((key) => Buffer.from(key, "hex")) };
+};
+
+const operations = [
+  { opName: "erc20.transfer", args: ["0xabc", 10n] },
+  { opName: "nop", args: ["nonce"] },
+];
+
+const expected: GtxExpectation = { blockchainRid, operations };
+
+const rejection = (tx: GTX, expectation = expected) => {
+  const result = verifyGtx(tx, expectation);
+  expect(result.isErr()).toBe(true);
+  return result._unsafeUnwrapErr();
+};
+
+describe("verifyGtx", () => {
+  test("accepts the transaction this node derived itself", () => {
+    expect(verifyGtx(buildTx(operations), expected).isOk()).toBe(true);
+  });
+
+  test("rejects a changed operation name or argument", () => {
+    expect(rejection(buildTx([{ opName: "erc20.mint", args: ["0xabc", 10n] }, operations[1]!])).type).toBe("validation_error");
+    expect(rejection(buildTx([{ opName: "erc20.transfer", args: ["0xabc", 11n] }, operations[1]!])).type).toBe("validation_error");
+  });
+
+  test("rejects an added or missing operation", () => {
+    expect(rejection(buildTx([...operations, { opName: "nop", args: ["extra"] }])).context).toContain("Unexpected operation");
+    expect(rejection(buildTx(operations.slice(0, 1))).context).toContain("Missing 1 expected operations");
+  });
+
+  test("rejects another blockchain RID", () => {
+    expect(rejection(buildTx(operations, undefined, Buffer.alloc(32, 2))).context).toContain("Unexpected blockchain RID");
+  });
+
+  test("rejects an unknown or duplicate signer, or a signer set without this node", () => {
+    const stranger = randomBytes(33).toString("hex");
+    expect(rejection(buildTx(operations, [ownKey, stranger])).context).toContain("Unknown signer");
+    expect(rejection(buildTx(operations, [ownKey, ownKey])).context).toContain("Duplicate signers");
+    expect(rejection(buildTx(operations, [peerKey])).context).toContain("not a signer");
+  });
+
+  test("accepts any value for an argument it cannot derive", () => {
+    const expectation: GtxExpectation = { blockchainRid, operations: [{ opName: "erc20.transfer", args: ["0xabc", verification.ANY_ARG] }, operations[1]!] };
+    expect(verifyGtx(buildTx([{ opName: "erc20.transfer", args: ["0xabc", 99n] }, operations[1]!]), expectation).isOk()).toBe(true);
+  });
+
+  test("checks a bounded argument with its matcher", () => {
+    const nearTen = matchArg((value) => typeof value === "number" && Math.abs(value - 10) <= 2);
+    const expectation = { blockchainRid, operations: [{ opName: "slot", args: [nearTen] }] };
+    expect(verifyGtx(buildTx([{ opName: "slot", args: [12] }]), expectation).isOk()).toBe(true);
+    expect(rejection(buildTx([{ opName: "slot", args: [13] }]), expectation).type).toBe("validation_error");
+  });
+
+  test("only allows left out operations when omissions are allowed, keeping the order", () => {
+    const events = [{ opName: "event", args: [1] }, { opName: "event", args: [2] }, { opName: "event", args: [3] }];
+    const expectation = { blockchainRid, operations: events, allowOmissions: true };
+
+    expect(rejection(buildTx([events[0]!, events[2]!]), { blockchainRid, operations: events }).type).toBe("validation_error");
+    expect(verifyGtx(buildTx([events[0]!, events[2]!]), expectation).isOk()).toBe(true);
+    expect(rejection(buildTx([events[2]!, events[0]!]), expectation).type).toBe("validation_error");
+  });
+});
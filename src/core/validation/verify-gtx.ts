@@ -0,0 +1,117 @@
+import { err, ok, type Result } from "neverthrow";
+import type { GTX, RawGtv } from "postchain-client";
+import config from "../../config";
+import { encode } from "../../util/encoder";
+import type { OracleError } from "../../util/errors";
+
+/**
+ * Placeholder for an argument a node cannot derive from its own prepared data
+ */
+export const ANY_ARG = Symbol("any");
+
+const MATCHER = Symbol("matcher");
+
+/**
+ * Argument a node can only bound from its own prepared data, e.g. a value read at a slightly different time
+ */
+export type ArgMatcher = { [MATCHER]: (value: RawGtv) => boolean };
+
+export const matchArg = (predicate: (value: RawGtv) => boolean): ArgMatcher => ({ [MATCHER]: predicate });
+
+export type ExpectedOperation = {
+  opName: string;
+  args: (RawGtv | typeof ANY_ARG | ArgMatcher)[];
+};
+
+export type GtxExpectation = {
+  blockchainRid: Buffer;
+  operations: ExpectedOperation[];
+  /**
+   * Whether the primary may leave out expected operations, e.g. events it found to be
+   * already processed on chain. The remaining operations must still appear in the expected order.
+   */
+  allowOmissions?: boolean;
+};
+
+/**
+ * Checks a GTX received from the primary against what this node derived from its own prepared data.
+ */
+export const verifyGtx = (tx: GTX, expected: GtxExpectation): Result<void, OracleError> => {
+  if (!tx.blockchainRid.equals(expected.blockchainRid)) {
+    return err({ type: "validation_error", context: `Unexpected blockchain RID ${tx.blockchainRid.toString('hex')}` });
+  }
+
+  const signersResult = verifySigners(tx.signers);
+  if (signersResult.isErr()) {
+    return signersResult;
+  }
+
+  let expectedIndex = 0;
+  for (const [i, operation] of tx.operations.entries()) {
+    while (expectedIndex < expected.operations.length && !matchesOperation(operation, expected.operations[expectedIndex]!)) {
+      if (!expected.allowOmissions) {
+        return err({ type: "validation_error", context: `Operation ${i} (${operation.opName}) does not match the expected ${expected.operations[expectedIndex]!.opName}` });
+      }
+      expectedIndex++;
+    }
+
+    if (expectedIndex >= expected.operations.length) {
+      return err({ type: "validation_error", context: `Unexpected operation ${i} (${operation.opName})` });
+    }
+    expectedIndex++;
+  }
+
+  if (!expected.allowOmissions && expectedIndex < expected.operations.length) {
+    return err({ type: "validation_error", context: `Missing ${expected.operations.length - expectedIndex} expected operations` });
+  }
+
+  return ok();
+}
+
+/**
+ * Every signer has to be a known node, listed once, and this node has to be one of them.
+ */
+const verifySigners = (signers: Buffer[]): Result<void, OracleError> => {
+  const knownKeys = [config.publicKey, ...config.peers.map((peer) => peer.publicKey)].map((key) => key.toLowerCase());
+  const signerKeys = signers.map((signer) => signer.toString('hex').toLowerCase());
+
+  const unknown = signerKeys.find((key) => !knownKeys.includes(key));
+  if (unknown) {
+    return err({ type: "validation_error", context: `Unknown signer ${unknown}` });
+  }
+
+  if (new Set(signerKeys).size !== signerKeys.length) {
+    return err({ type: "validation_error", context: "Duplicate signers" });
+  }
+
+  if (!signerKeys.includes(config.publicKey.toLowerCase())) {
+    return err({ type: "validation_error", context: "This node is not a signer" });
+  }
+
+  return ok();
+}
+
+const matchesOperation = (operation: GTX["operations"][number], expected: ExpectedOperation): boolean => {
+  if (operation.opName !== expected.opName || operation.args.length !== expected.args.length) {
+    return false;
+  }
+
+  return expected.args.every((arg, i) => {
+    if (arg === ANY_ARG) return true;
+    if (isMatcher(arg)) return arg[MATCHER](operation.args[i]!);
+    return sameValue(arg, operation.args[i]);
+  });
+}
+
+const isMatcher = (arg: unknown): arg is ArgMatcher => {
+  return typeof arg === "object" && arg !== null && MATCHER in arg;
+}
+
+// Compares through the canonical encoding, so values survive the trip between nodes
+const sameValue = (a: unknown, b: unknown): boolean => {
+  try {
+    return encode(a).equals(encode(b));
+  } catch {
+    return false;
+  }
+}
@@ -20,6 +20,20 @@ import { ERC20Listener } from "./listeners/ERC20Listener";
 import { ManageMegadata } from "./plugins/ManageMegadata";
 import { ManageQuery } from "./plugins/ManageQuery";
 import { FileUploader } from "./plugins/FileUploader";
+import { recoverTasks } from "./core/task/recovery";
+import taskStatus from "./routes/taskStatus";
+import taskSimulate from "./routes/taskSimulate";
+import taskBulkCreate from "./routes/taskBulkCreate";
+import { peerServerTls } from "./util/peer-auth";
+import { authorizeAdmin } from "./util/admin-auth";
+import adminTaskList from "./routes/adminTaskList";
+import adminTaskReplay from "./routes/adminTaskReplay";
+import adminTaskDiscard from "./routes/adminTaskDiscard";
+import { LeaderElection } from "./core/leader/LeaderElection";
+import leaderHeartbeat from "./routes/leaderHeartbeat";
+import { PeerHealthTracker } from "./core/peer/PeerHealthTracker";
+import peerStatus from "./routes/peerStatus";
+import { startTraceExport, withRequestSpan } from "./util/tracing";
 
 const pluginRegistry = PluginRegistry.getInstance();
 pluginRegistry.register(new SolanaMegaForwarder());
@@ -33,22 +47,41 @@ pluginRegistry.register(new ManageMegadata());
 pluginRegistry.register(new ManageQuery());
 pluginRegistry.register(new FileUploader());
 
-if (config.primary) {
-  const listenerHandler = ListenerRegistry.getInstance();
+const leaderElection = LeaderElection.getInstance();
+const listenerHandler = ListenerRegistry.getInstance();
+if (config.primary || config.leaderElection?.candidate) {
   listenerHandler.register(new SolanaListener());
   listenerHandler.register(new ERC721Listener());
   listenerHandler.register(new ERC20Listener());
   listenerHandler.register(new MocaStakeListener());
 }
 
+// Only the leader coordinates tasks, so unfinished ones are picked up once this node leads
+leaderElection.onLeadershipChange((isLeader) => {
+  if (!isLeader) {
+    listenerHandler.stop();
+    return;
+  }
+
+  recoverTasks().catch((error) => {
+    logger.error("Failed to recover unfinished tasks", { error });
+  });
+  listenerHandler.start();
+});
+leaderElection.start();
+
+PeerHealthTracker.getInstance().start();
+startTraceExport();
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, Idempotency-Key",
 };
 
 const server = Bun.serve({
   port: config.port,
+  tls: peerServerTls(),
   fetch: async (req) => {
     const url = new URL(req.url);
     const path = url.pathname;
@@ -69,7 +102,7 @@ const server = Bun.serve({
     }
 
     if (req.method === "POST" && path === "/task/prepare") {
-      const response = await taskPrepare(req);
+      const response = await withRequestSpan(req, taskPrepare);
       const { status, statusText, body } = response;
       const responseHeaders = { ...Object.fromEntries(response.headers), ...corsHeaders };
       
@@ -80,8 +113,20 @@ const server = Bun.serve({
       });
     }
 
+    if (req.method === "POST" && path === "/leader/heartbeat") {
+      const response = await leaderHeartbeat(req);
+      const { status, statusText, body } = response;
+      const responseHeaders = { ...Object.fromEntries(response.headers), ...corsHeaders };
+
+      return new Response(body, {
+        status,
+        statusText,
+        headers: responseHeaders
+      });
+    }
+
     if (req.method === "POST" && path === "/task/validate") {
-      const response = await taskValidate(req);
+      const response = await withRequestSpan(req, taskValidate);
       const { status, statusText, body } = response;
       const responseHeaders = { ...Object.fromEntries(response.headers), ...corsHeaders };
       
@@ -123,8 +168,66 @@ const apiServer = Bun.serve({
       });
     }
 
+    if (req.method === "GET" && path === "/peers") {
+      const response = await peerStatus();
+      const { status, statusText, body } = response;
+      const responseHeaders = { ...Object.fromEntries(response.headers), ...corsHeaders };
+
+      return new Response(body, {
+        status,
+        statusText,
+        headers: responseHeaders
+      });
+    }
+
+    if (path.startsWith("/admin/")) {
+      const authorized = authorizeAdmin(req);
+      if (authorized.isErr()) {
+        return new Response(JSON.stringify({ error: authorized.error.type, context: authorized.error.context }), {
+          status: 401,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+    }
+
+    if (req.method === "GET" && path === "/admin/tasks") {
+      const response = await adminTaskList(req);
+      const { status, statusText, body } = response;
+      const responseHeaders = { ...Object.fromEntries(response.headers), ...corsHeaders };
+
+      return new Response(body, {
+        status,
+        statusText,
+        headers: responseHeaders
+      });
+    }
+
+    if (req.method === "POST" && path === "/admin/tasks/replay") {
+      const response = await adminTaskReplay(req);
+      const { status, statusText, body } = response;
+      const responseHeaders = { ...Object.fromEntries(response.headers), ...corsHeaders };
+
+      return new Response(body, {
+        status,
+        statusText,
+        headers: responseHeaders
+      });
+    }
+
+    if (req.method === "POST" && path === "/admin/tasks/discard") {
+      const response = await adminTaskDiscard(req);
+      const { status, statusText, body } = response;
+      const responseHeaders = { ...Object.fromEntries(response.headers), ...corsHeaders };
+
+      return new Response(body, {
+        status,
+        statusText,
+        headers: responseHeaders
+      });
+    }
+
     if (req.method === "POST" && path === "/task") {
-      const response = await taskCreate(req);
+      const response = await withRequestSpan(req, taskCreate);
       const { status, statusText, body } = response;
       const responseHeaders = { ...Object.fromEntries(response.headers), ...corsHeaders };
       
@@ -135,6 +238,42 @@ const apiServer = Bun.serve({
       });
     }
 
+    if (req.method === "POST" && path === "/tasks") {
+      const response = await withRequestSpan(req, taskBulkCreate);
+      const { status, statusText, body } = response;
+      const responseHeaders = { ...Object.fromEntries(response.headers), ...corsHeaders };
+
+      return new Response(body, {
+        status,
+        statusText,
+        headers: responseHeaders
+      });
+    }
+
+    if (req.method === "POST" && path === "/task/simulate") {
+      const response = await withRequestSpan(req, taskSimulate);
+      const { status, statusText, body } = response;
+      const responseHeaders = { ...Object.fromEntries(response.headers), ...corsHeaders };
+
+      return new Response(body, {
+        status,
+        statusText,
+        headers: responseHeaders
+      });
+    }
+
+    if (req.method === "GET" && path.startsWith("/task/")) {
+      const response = await taskStatus(decodeURIComponent(path.slice("/task/".length)));
+      const { status, statusText, body } = response;
+      const responseHeaders = { ...Object.fromEntries(response.headers), ...corsHeaders };
+
+      return new Response(body, {
+        status,
+        statusText,
+        headers: responseHeaders
+      });
+    }
+
     if (req.method === "POST" && path === "/helius/webhook") {
       const response = await heliusWebhook(req);
       const { status, statusText, body } = response;
@@ -6,6 +6,7 @@ import { bufferToHex } from "../util/hex";
 import type { Log } from "ethers";
 import type { EventLog } from "ethers";
 import { Task } from "../core/task/Task";
+import { TaskJournal } from "../core/task/TaskJournal";
 import config from "../config";
 import { ok, err, Result, ResultAsync } from "neverthrow";
 import { millisecondsFromNow, secondsFromNow } from "../util/time";
@@ -18,6 +19,7 @@ import { ERC20Forwarder } from "../plugins/ERC20Forwarder";
 import type { ERC20ForwarderInput } from "../plugins/ERC20Forwarder";
 import cache from "../core/cache";
 import { getBlockNumberCacheKey } from "../util/cache-keys";
+import { withSpan } from "../util/tracing";
 
 // Define the structure for a single event input
 type SingleERC20ForwarderInput = {
@@ -156,6 +158,11 @@ export class ERC20Listener extends Listener {
     return millisecondsFromNow(this._throttleOnSuccessMs);
   }
 
+  // Contracts track the block they are indexed up to on chain, so the search resumes from there
+  reset() {
+    this._searchedBlockNumbers.clear();
+  }
+
   private async getContracts(): Promise<AssetInfo[]> {
     try {
       const client = await createClient({
@@ -200,11 +207,14 @@ export class ERC20Listener extends Listener {
     const firstEventId = this.uniqueId(firstEvent.event);
     const lastEventId = this.uniqueId(lastEvent.event);
     
-    logger.info(`ERC20Listener: Handling batch of ${batch.length} events (from ${firstEventId} to ${lastEventId})`);
-
+    // Traces the batch from here to its Postchain transaction, across every node taking part
+    const batchAttributes = { "batch.size": batch.length, "batch.first_event": firstEventId, "batch.last_event": lastEventId };
     // The Task now takes the entire batch as input
     const task = new Task<BatchedERC20ForwarderInput>(ERC20Forwarder.pluginId, batch);
-    const result = await task.start();
+    const result = await withSpan("ERC20Listener.handleBatch", { attributes: batchAttributes }, async () => {
+      logger.info(`ERC20Listener: Handling batch of ${batch.length} events (from ${firstEventId} to ${lastEventId})`);
+      return task.run("bulk");
+    });
 
     if (result.isErr()) {
       // Check for non-error (e.g., all events in batch already processed)
@@ -212,9 +222,33 @@ export class ERC20Listener extends Listener {
         logger.info(`Skipping batch (from ${firstEventId} to ${lastEventId}) because it was marked as a non-error`, { count: batch.length });
         return ok(true);
       }
+      // A batch the plugin rejects is split like an oversized one, down to the single event to skip
+      const poisoned = this.isPoisoned(result.error);
+      if (batch.length > 1 && (result.error.type === "tx_too_large" || poisoned)) {
+        return this.handleHalves(batch, task.id, result.error);
+      }
+      if (poisoned) {
+        logger.warn(`Skipping event ${firstEventId} after its plugin rejected it`, { error: result.error });
+        return ok(true);
+      }
       // Return the actual error
       return result;
     }
     return ok(result.value);
   }
+
+  // Handles each half as its own transaction, the batch only succeeds when both do
+  private async handleHalves(batch: BatchedERC20ForwarderInput, taskId: string, error: OracleError): Promise<Result<boolean, OracleError>> {
+    logger.info(`ERC20Listener: Splitting batch (from ${this.uniqueId(batch[0]!.event)} to ${this.uniqueId(batch.at(-1)!.event)}) after ${error.type}`, { count: batch.length });
+    const middle = Math.ceil(batch.length / 2);
+    for (const part of [batch.slice(0, middle), batch.slice(middle)]) {
+      const partResult = await this.handleBatch(part);
+      if (partResult.isErr()) {
+        return partResult;
+      }
+    }
+    // Its events were handled by the halves, replaying the batch would only fail again
+    TaskJournal.getInstance().discard(taskId);
+    return ok(true);
+  }
 }
\ No newline at end of file
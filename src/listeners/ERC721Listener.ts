@@ -6,6 +6,7 @@ import type { Log } from "ethers";
 import type { EventLog } from "ethers";
 import { ERC721Forwarder, type ERC721ForwarderInput } from "../plugins/ERC721Forwarder";
 import { Task } from "../core/task/Task";
+import { TaskJournal } from "../core/task/TaskJournal";
 import config from "../config";
 import { ok, err, Result, ResultAsync } from "neverthrow";
 import { millisecondsFromNow, secondsFromNow } from "../util/time";
@@ -155,6 +156,11 @@ export class ERC721Listener extends Listener {
     return millisecondsFromNow(this._throttleOnSuccessMs);
   }
 
+  // Contracts track the block they are indexed up to on chain, so the search resumes from there
+  reset() {
+    this._searchedBlockNumbers.clear();
+  }
+
   private async getContracts(): Promise<AssetInfo[]> {
     try {
       const client = await createClient({
@@ -203,7 +209,7 @@ export class ERC721Listener extends Listener {
 
     // The Task now takes the entire batch as input
     const task = new Task<BatchedERC721ForwarderInput>(ERC721Forwarder.pluginId, batch);
-    const result = await task.start();
+    const result = await task.run("bulk");
 
     if (result.isErr()) {
       // Check for non-error (e.g., all events in batch already processed)
@@ -211,9 +217,33 @@ export class ERC721Listener extends Listener {
         logger.info(`Skipping batch (from ${firstEventId} to ${lastEventId}) because it was marked as a non-error`, { count: batch.length });
         return ok(true);
       }
+      // A batch the plugin rejects is split like an oversized one, down to the single event to skip
+      const poisoned = this.isPoisoned(result.error);
+      if (batch.length > 1 && (result.error.type === "tx_too_large" || poisoned)) {
+        return this.handleHalves(batch, task.id, result.error);
+      }
+      if (poisoned) {
+        logger.warn(`Skipping event ${firstEventId} after its plugin rejected it`, { error: result.error });
+        return ok(true);
+      }
       // Return the actual error
       return result;
     }
     return ok(result.value);
   }
+
+  // Handles each half as its own transaction, the batch only succeeds when both do
+  private async handleHalves(batch: BatchedERC721ForwarderInput, taskId: string, error: OracleError): Promise<Result<boolean, OracleError>> {
+    logger.info(`ERC721Listener: Splitting batch (from ${this.uniqueId(batch[0]!.event)} to ${this.uniqueId(batch.at(-1)!.event)}) after ${error.type}`, { count: batch.length });
+    const middle = Math.ceil(batch.length / 2);
+    for (const part of [batch.slice(0, middle), batch.slice(middle)]) {
+      const partResult = await this.handleBatch(part);
+      if (partResult.isErr()) {
+        return partResult;
+      }
+    }
+    // Its events were handled by the halves, replaying the batch would only fail again
+    TaskJournal.getInstance().discard(taskId);
+    return ok(true);
+  }
 }
\ No newline at end of file
@@ -107,6 +107,11 @@ export class MocaStakeListener extends Listener {
     return millisecondsFromNow(this._throttleOnSuccessMs);
   }
 
+  // Contracts track the block they are indexed up to on chain, so the search resumes from there
+  reset() {
+    this._searchedBlockNumbers.clear();
+  }
+
   private async getContracts() {
     const client = await createClient({
       directoryNodeUrlPool: this._directoryNodeUrlPool,
@@ -132,12 +137,16 @@ export class MocaStakeListener extends Listener {
   private async handleEvent(chain: string, event: EventWrapper): Promise<Result<boolean, OracleError>> {
     const input: MocaStakeForwarderInput = { chain, eventName: event.eventName, event: event.event };
     const task = new Task(MocaStakeForwarder.pluginId, input);
-    const result = await task.start();
+    const result = await task.run("bulk");
     if (result.isErr()) {
       if (result.error.type === "non_error") {
         logger.info(`Skipping event ${this.uniqueId(event.event)} because it was marked as a non-error`, { event });
         return ok(true);
       }
+      if (this.isPoisoned(result.error)) {
+        logger.warn(`Skipping event ${this.uniqueId(event.event)} after its plugin rejected it`, { error: result.error });
+        return ok(true);
+      }
 
       return result;
     }
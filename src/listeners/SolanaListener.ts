@@ -62,6 +62,11 @@ export class SolanaListener extends Listener implements IListener {
     }
   }
 
+  // The indexed slot is stored on chain, so the listener resumes from there
+  reset() {
+    this._currentBlockHeight = -1;
+  }
+
   async run(): Promise<number> {
     const rpcUrl = this.getRpcUrl();
     const previousIndexedSlot = await executeThrottled<number>(
@@ -158,12 +163,16 @@ export class SolanaListener extends Listener implements IListener {
         if (tx.value) {
           if (tx.value.meta?.logMessages?.some((log: string) => log.includes('Operation name:'))) {
             const task = new Task(SolanaMegaForwarder.pluginId, { txSignature: sig.signature });
-            const result = await task.start();
+            const result = await task.run("bulk");
             if (result.isErr()) {
               if (result.error.type === "non_error") {
                 logger.info(`Skipping transaction ${sig.signature}`);
                 continue;
               }
+              if (this.isPoisoned(result.error)) {
+                logger.warn(`Skipping transaction ${sig.signature} after its plugin rejected it`, { error: result.error });
+                continue;
+              }
               logger.error(`Failed to handle transaction: ${sig.signature}`);
               return secondsFromNow(60);
             }
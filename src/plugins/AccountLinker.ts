@@ -1,14 +1,16 @@
-import { createClient, getDigestToSignFromRawGtxBody, gtx, type GTX, type RawGtxBody } from "postchain-client";
+import { createClient, gtx, type GTX, type RellOperation } from "postchain-client";
 import { Plugin } from "../core/plugin/Plugin";
 import type { Result } from "neverthrow";
 import { ok, err } from "neverthrow";
 import type { OracleError } from "../util/errors";
 import type { ProcessInput } from "../core/types/Protocol";
-import { ecdsaSign } from "secp256k1";
+import type { TaskContext } from "../core/types/TaskContext";
 import config from "../config";
 import { logger } from "../util/monitoring";
 import { postchainConfig } from "../util/postchain-config";
 import { validateAuth } from "../util/auth";
+import { signGtx } from "../util/gtx";
+import { verifyGtx } from "../core/validation/verify-gtx";
 
 type AccountSignature = {
   type: "solana" | "evm";
@@ -28,7 +30,11 @@ export class AccountLinker extends Plugin<AccountLinkerInput, string[], GTX, voi
   private readonly _blockchainRid: Buffer;
 
   constructor() {
-    super({ id: AccountLinker.pluginId });
+    super({
+      id: AccountLinker.pluginId,
+      version: "2.0.0",
+      allowedOperations: ["account_links.link_accounts", "nop"]
+    });
 
     this._directoryNodeUrlPool = config.abstractionChain.directoryNodeUrlPool as string[];
     this._blockchainRid = Buffer.from(config.abstractionChain.blockchainRid as string, "hex");
@@ -56,47 +62,59 @@ export class AccountLinker extends Plugin<AccountLinkerInput, string[], GTX, voi
     return ok(input.signatures.map((s) => s.account));
   }
 
-  async process(input: ProcessInput<string[]>[]): Promise<Result<GTX, OracleError>> {
+  async process(input: ProcessInput<string[]>[], context: TaskContext): Promise<Result<GTX, OracleError>> {
     logger.info(`Processing account linker`);
     const selectedData = input[0];
     if (!selectedData) {
       return err({ type: "process_error", context: "No input data" });
     }
 
-    const { data: accounts } = selectedData;
+    const operations = this.buildOperations(selectedData.data);
+    if (operations.isErr()) {
+      return err(operations.error);
+    }
 
-    const emptyGtx = gtx.emptyGtx(this._blockchainRid);
+    let tx = gtx.emptyGtx(this._blockchainRid);
+    for (const operation of operations.value) {
+      tx = gtx.addTransactionToGtx(operation.opName, operation.args, tx);
+    }
 
-    let tx = emptyGtx;
-    const baseAccount = accounts[0];
-    if (!baseAccount) return err({ type: "process_error", context: "No base account" });
+    tx = gtx.addTransactionToGtx("nop", [context.nonce], tx);
 
-    for (let i = 1; i < accounts.length; i++) {
-      const account = accounts[i];
-      if (!account) return err({ type: "process_error", context: "No account" });
+    return ok(tx);
+  }
 
-      tx = gtx.addTransactionToGtx("account_links.link_accounts", [baseAccount, account], tx);
+  async validate(gtx: GTX, preparedData: string[], context: TaskContext): Promise<Result<GTX, OracleError>> {
+    const operations = this.buildOperations(preparedData);
+    if (operations.isErr()) {
+      return err(operations.error);
     }
 
-    tx = gtx.addTransactionToGtx("nop", [Math.floor(Math.random() * 1000000)], tx);
-    tx.signers = input.map((i) => Buffer.from(i.pubkey, "hex"));
+    const verified = verifyGtx(gtx, {
+      blockchainRid: this._blockchainRid,
+      operations: [...operations.value, { opName: "nop", args: [context.nonce] }]
+    });
+    if (verified.isErr()) {
+      return err(verified.error);
+    }
 
-    return ok(tx);
+    logger.info(`Account linker validated successfully`);
+    return ok(signGtx(gtx, config.privateKey));
   }
 
-  async validate(gtx: GTX, preparedData: string[]): Promise<Result<GTX, OracleError>> {
-    const gtxBody = [gtx.blockchainRid, gtx.operations.map((op) => [op.opName, op.args]), gtx.signers] as RawGtxBody;
-    const digest = getDigestToSignFromRawGtxBody(gtxBody);
-    const signature = Buffer.from(ecdsaSign(digest, Buffer.from(config.privateKey, 'hex')).signature);
+  private buildOperations(accounts: string[]): Result<RellOperation[], OracleError> {
+    const baseAccount = accounts[0];
+    if (!baseAccount) return err({ type: "process_error", context: "No base account" });
+
+    const operations: RellOperation[] = [];
+    for (let i = 1; i < accounts.length; i++) {
+      const account = accounts[i];
+      if (!account) return err({ type: "process_error", context: "No account" });
 
-    if (gtx.signatures) {
-      gtx.signatures.push(signature);
-    } else {
-      gtx.signatures = [signature];
+      operations.push({ opName: "account_links.link_accounts", args: [baseAccount, account] });
     }
 
-    logger.info(`Account linker validated successfully`);
-    return ok(gtx);
+    return ok(operations);
   }
 
   async execute(_gtx: GTX): Promise<Result<void, OracleError>> {
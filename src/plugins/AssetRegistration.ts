@@ -1,14 +1,15 @@
-import { createClient, getDigestToSignFromRawGtxBody, gtx, type GTX, type RawGtxBody } from "postchain-client";
+import { createClient, gtx, type GTX, type RellOperation } from "postchain-client";
 import { Plugin } from "../core/plugin/Plugin";
 import type { Result } from "neverthrow";
 import { ok, err } from "neverthrow";
 import type { OracleError } from "../util/errors";
 import type { ProcessInput } from "../core/types/Protocol";
-import { ecdsaSign } from "secp256k1";
 import config from "../config";
 import { logger } from "../util/monitoring";
 import { postchainConfig } from "../util/postchain-config";
 import { validateAuth, type AccountSignature } from "../util/auth";
+import { signGtx } from "../util/gtx";
+import { verifyGtx } from "../core/validation/verify-gtx";
 
 type AssetRegistrationInput = {
   auth: AccountSignature;
@@ -19,20 +20,47 @@ type AssetRegistrationInput = {
   type: string;
 }
 
-export class AssetRegistration extends Plugin<AssetRegistrationInput, AssetRegistrationInput, GTX, void> {
+// Several registrations are merged into a list and registered in a single transaction
+type AssetRegistrationRequest = AssetRegistrationInput | AssetRegistrationInput[];
+
+export class AssetRegistration extends Plugin<AssetRegistrationRequest, AssetRegistrationRequest, GTX, void> {
   static readonly pluginId = "asset-registration";
 
   private readonly _directoryNodeUrlPool: string[];
   private readonly _blockchainRid: Buffer;
 
   constructor() {
-    super({ id: AssetRegistration.pluginId });
+    super({
+      id: AssetRegistration.pluginId,
+      version: "2.0.0",
+      allowedOperations: ["assets.register"]
+    });
 
     this._directoryNodeUrlPool = config.abstractionChain.directoryNodeUrlPool as string[];
     this._blockchainRid = Buffer.from(config.abstractionChain.blockchainRid as string, "hex");
   }
 
-  async prepare(input: AssetRegistrationInput): Promise<Result<AssetRegistrationInput, OracleError>> {
+  mergeInputs(inputs: AssetRegistrationRequest[]): AssetRegistrationRequest | null {
+    return inputs.length > 0 ? inputs.flatMap(toList) : null;
+  }
+
+  async prepare(request: AssetRegistrationRequest): Promise<Result<AssetRegistrationRequest, OracleError>> {
+    const inputs = toList(request);
+    if (inputs.length === 0) {
+      return err({ type: "bad_input", context: "No assets to register" });
+    }
+
+    for (const input of inputs) {
+      const result = this.prepareAsset(input);
+      if (result.isErr()) {
+        return err(result.error);
+      }
+    }
+
+    return ok(request);
+  }
+
+  private prepareAsset(input: AssetRegistrationInput): Result<void, OracleError> {
     const authResult = validateAuth(input.auth, `Asset Registration`);
     if (authResult.isErr()) {
       return err(authResult.error);
@@ -61,46 +89,48 @@ export class AssetRegistration extends Plugin<AssetRegistrationInput, AssetRegis
         return err({ type: "bad_input", context: `Unsupported asset type: ${input.type}` });
     }
 
-    return ok(input);
+    return ok();
   }
 
-  async process(input: ProcessInput<AssetRegistrationInput>[]): Promise<Result<GTX, OracleError>> {
+  async process(input: ProcessInput<AssetRegistrationRequest>[]): Promise<Result<GTX, OracleError>> {
     logger.info(`Processing asset registration`);
     const selectedData = input[0];
     if (!selectedData) {
       return err({ type: "process_error", context: "No input data" });
     }
 
-    const { data: contract } = selectedData;
-
-    const emptyGtx = gtx.emptyGtx(this._blockchainRid);
-    
-    const tx = gtx.addTransactionToGtx("assets.register", [
-      contract.source,
-      contract.asset,
-      contract.unit,
-      contract.name,
-      contract.type.toLowerCase()
-    ], emptyGtx);
-
-    tx.signers = input.map((i) => Buffer.from(i.pubkey, "hex"));
+    let tx = gtx.emptyGtx(this._blockchainRid);
+    for (const { opName, args } of toList(selectedData.data).map((asset) => this.buildOperation(asset))) {
+      tx = gtx.addTransactionToGtx(opName, args, tx);
+    }
 
     return ok(tx);
   }
 
-  async validate(gtx: GTX, _: AssetRegistrationInput): Promise<Result<GTX, OracleError>> {
-    const gtxBody = [gtx.blockchainRid, gtx.operations.map((op) => [op.opName, op.args]), gtx.signers] as RawGtxBody;
-    const digest = getDigestToSignFromRawGtxBody(gtxBody);
-    const signature = Buffer.from(ecdsaSign(digest, Buffer.from(config.privateKey, 'hex')).signature);
-
-    if (gtx.signatures) {
-      gtx.signatures.push(signature);
-    } else {
-      gtx.signatures = [signature];
+  async validate(gtx: GTX, preparedData: AssetRegistrationRequest): Promise<Result<GTX, OracleError>> {
+    const verified = verifyGtx(gtx, {
+      blockchainRid: this._blockchainRid,
+      operations: toList(preparedData).map((asset) => this.buildOperation(asset))
+    });
+    if (verified.isErr()) {
+      return err(verified.error);
     }
 
     logger.info(`Asset registration validated successfully`);
-    return ok(gtx);
+    return ok(signGtx(gtx, config.privateKey));
+  }
+
+  private buildOperation(contract: AssetRegistrationInput): RellOperation {
+    return {
+      opName: "assets.register",
+      args: [
+        contract.source,
+        contract.asset,
+        contract.unit,
+        contract.name,
+        contract.type.toLowerCase()
+      ]
+    };
   }
 
   async execute(_gtx: GTX): Promise<Result<void, OracleError>> {
@@ -131,4 +161,6 @@ export class AssetRegistration extends Plugin<AssetRegistrationInput, AssetRegis
 
     return ok();
   }
-}
\ No newline at end of file
+}
+
+const toList = (request: AssetRegistrationRequest): AssetRegistrationInput[] => Array.isArray(request) ? request : [request];
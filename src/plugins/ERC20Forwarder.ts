@@ -1,12 +1,11 @@
 import type { Log, TransactionResponse } from "ethers";
 import { Plugin } from "../core/plugin/Plugin";
 import type { EventLog } from "ethers";
-import { ChainConfirmationLevel, createClient, getDigestToSignFromRawGtxBody, gtx, type GTX, type RawGtxBody } from "postchain-client";
+import { ChainConfirmationLevel, createClient, gtx, type GTX, type RellOperation } from "postchain-client";
 import type { ProcessInput } from "../core/types/Protocol";
 import { logger, rpcCallsTotal, txProcessedTotal } from "../util/monitoring";
 import { dataSlice, ethers } from "ethers";
 import { getAddress } from "ethers/address";
-import { ecdsaSign } from "secp256k1";
 import config from "../config";
 import { hexToBuffer } from "../util/hex";
 import erc20Abi from "../util/abis/erc20";
@@ -18,6 +17,8 @@ import { EVM_THROTTLE_LIMIT } from "../util/constants";
 import { createRandomProvider } from "../util/create-provider";
 import type { Rpc } from "../core/types/config/Rpc";
 import { postchainConfig } from "../util/postchain-config";
+import { signGtx } from "../util/gtx";
+import { verifyGtx } from "../core/validation/verify-gtx";
 
 // Define input for a single ERC20 event
 export type ERC20ForwarderInput = {
@@ -50,7 +51,11 @@ export class ERC20Forwarder extends Plugin<BatchedERC20ForwarderInput, ERC20Even
   private readonly _blockchainRid: Buffer;
 
   constructor() {
-    super({ id: ERC20Forwarder.pluginId });
+    super({
+      id: ERC20Forwarder.pluginId,
+      version: "1.0.0",
+      allowedOperations: ["evm.erc20.mint", "evm.erc20.transfer"]
+    });
     this._directoryNodeUrlPool = config.abstractionChain.directoryNodeUrlPool;
     this._blockchainRid = Buffer.from(config.abstractionChain.blockchainRid, 'hex');
   }
@@ -207,7 +212,7 @@ export class ERC20Forwarder extends Plugin<BatchedERC20ForwarderInput, ERC20Even
     // Create an empty GTX
     const emptyGtx = gtx.emptyGtx(this._blockchainRid);
     
-    // Use the first input from any peer
+    // All inputs carry the prepared data the peers agreed on
     const selectedInput = inputs[0];
     if (!selectedInput || selectedInput.data.length === 0) {
       return err({ type: "process_error", context: `No input data received` });
@@ -242,46 +247,16 @@ export class ERC20Forwarder extends Plugin<BatchedERC20ForwarderInput, ERC20Even
         continue; // Skip this event but continue processing others
       }
 
-      // Add the appropriate operation based on whether this is a mint or transfer
-      if (event.isMint) {
-        // Here we can safely access decimals, name, and symbol because we know isMint is true
-        const { decimals, name, symbol } = event;
-        logger.info(`Processing ERC20 mint`, {
-          eventId,
-          contractAddress: event.contractAddress,
-          amount: event.amount.toString(),
-        });
-
-        tx = gtx.addTransactionToGtx('evm.erc20.mint', [
-          event.chain,
-          event.blockNumber,
-          hexToBuffer(event.contractAddress),
-          eventId,
-          hexToBuffer(event.to),
-          event.amount,
-          decimals,
-          name,
-          symbol
-        ], tx);
-        processedAny = true;
-      } else {
-        logger.info(`Processing ERC20 transfer`, {
-          eventId,
-          contractAddress: event.contractAddress,
-          amount: event.amount.toString(),
-        });
+      logger.info(`Processing ERC20 ${event.isMint ? "mint" : "transfer"}`, {
+        eventId,
+        contractAddress: event.contractAddress,
+        amount: event.amount.toString(),
+      });
 
-        tx = gtx.addTransactionToGtx('evm.erc20.transfer', [
-          event.chain,
-          event.blockNumber,
-          hexToBuffer(event.contractAddress),
-          eventId,
-          hexToBuffer(event.from),
-          hexToBuffer(event.to),
-          event.amount
-        ], tx);
-        processedAny = true;
-      }
+      // Add the appropriate operation based on whether this is a mint or transfer
+      const { opName, args } = this.toOperation(event);
+      tx = gtx.addTransactionToGtx(opName, args, tx);
+      processedAny = true;
     }
 
     // If we didn't process any events, return a non-error
@@ -289,24 +264,57 @@ export class ERC20Forwarder extends Plugin<BatchedERC20ForwarderInput, ERC20Even
       return err({ type: "non_error", context: "All events in batch were already processed" });
     }
 
-    // Set the signers from all inputs
-    tx.signers = inputs.map((i) => Buffer.from(i.pubkey, 'hex'));
-
     return ok(tx);
   }
 
   async validate(gtx: GTX, preparedData: ERC20Event[]): Promise<Result<GTX, OracleError>> {
-    const gtxBody = [gtx.blockchainRid, gtx.operations.map((op) => [op.opName, op.args]), gtx.signers] as RawGtxBody;
-    const digest = getDigestToSignFromRawGtxBody(gtxBody);
-    const signature = Buffer.from(ecdsaSign(digest, Buffer.from(config.privateKey, 'hex')).signature);
-
-    if (gtx.signatures) {
-      gtx.signatures.push(signature);
-    } else {
-      gtx.signatures = [signature];
+    // Events that were already processed on chain are left out by the primary
+    const verified = verifyGtx(gtx, {
+      blockchainRid: this._blockchainRid,
+      operations: preparedData.map((event) => this.toOperation(event)),
+      allowOmissions: true
+    });
+    if (verified.isErr()) {
+      return err(verified.error);
+    }
+
+    return ok(signGtx(gtx, config.privateKey));
+  }
+
+  private toOperation(event: ERC20Event): RellOperation {
+    const eventId = `${event.transactionHash}-${event.logIndex}`;
+
+    if (event.isMint) {
+      // Here we can safely access decimals, name, and symbol because we know isMint is true
+      const { decimals, name, symbol } = event;
+      return {
+        opName: 'evm.erc20.mint',
+        args: [
+          event.chain,
+          event.blockNumber,
+          hexToBuffer(event.contractAddress),
+          eventId,
+          hexToBuffer(event.to),
+          event.amount,
+          decimals,
+          name,
+          symbol
+        ]
+      };
     }
 
-    return ok(gtx);
+    return {
+      opName: 'evm.erc20.transfer',
+      args: [
+        event.chain,
+        event.blockNumber,
+        hexToBuffer(event.contractAddress),
+        eventId,
+        hexToBuffer(event.from),
+        hexToBuffer(event.to),
+        event.amount
+      ]
+    };
   }
 
   async execute(_gtx: GTX): Promise<Result<boolean, OracleError>> {
@@ -1,13 +1,12 @@
 import type { Log, TransactionResponse } from "ethers";
 import { Plugin } from "../core/plugin/Plugin";
 import type { EventLog } from "ethers";
-import { ChainConfirmationLevel, createClient, getDigestToSignFromRawGtxBody, gtx, type GTX, type RawGtxBody } from "postchain-client";
+import { ChainConfirmationLevel, createClient, gtx, type GTX, type RellOperation } from "postchain-client";
 import type { ProcessInput } from "../core/types/Protocol";
 import { logger, rpcCallsTotal, txProcessedTotal } from "../util/monitoring";
 import { JsonRpcProvider } from "ethers/providers";
 import { Contract, dataSlice, ethers } from "ethers";
 import { getAddress } from "ethers/address";
-import { ecdsaSign } from "secp256k1";
 import config from "../config";
 import { hexToBuffer } from "../util/hex";
 import erc721Abi from "../util/abis/erc721";
@@ -19,6 +18,8 @@ import { EVM_THROTTLE_LIMIT } from "../util/constants";
 import { createRandomProvider } from "../util/create-provider";
 import type { Rpc } from "../core/types/config/Rpc";
 import { postchainConfig } from "../util/postchain-config";
+import { signGtx } from "../util/gtx";
+import { verifyGtx } from "../core/validation/verify-gtx";
 
 // Define input for a single event
 export type ERC721ForwarderInput = {
@@ -51,7 +52,11 @@ export class ERC721Forwarder extends Plugin<BatchedERC721ForwarderInput, ERC721E
   private readonly _blockchainRid: Buffer;
 
   constructor() {
-    super({ id: ERC721Forwarder.pluginId });
+    super({
+      id: ERC721Forwarder.pluginId,
+      version: "1.0.0",
+      allowedOperations: ["evm.erc721.mint", "evm.erc721.transfer"]
+    });
     this._blockchainRid = Buffer.from(config.abstractionChain.blockchainRid, 'hex');
     this._directoryNodeUrlPool = config.abstractionChain.directoryNodeUrlPool;
   }
@@ -214,7 +219,7 @@ export class ERC721Forwarder extends Plugin<BatchedERC721ForwarderInput, ERC721E
     // Create an empty GTX
     const emptyGtx = gtx.emptyGtx(this._blockchainRid);
     
-    // Use the first input from any peer
+    // All inputs carry the prepared data the peers agreed on
     const selectedInput = inputs[0];
     if (!selectedInput || selectedInput.data.length === 0) {
       return err({ type: "process_error", context: `No input data received` });
@@ -249,42 +254,16 @@ export class ERC721Forwarder extends Plugin<BatchedERC721ForwarderInput, ERC721E
         continue; // Skip this event but continue processing others
       }
 
+      logger.info(`Processing ERC721 ${event.metadata && event.tokenUri ? "mint" : "transfer"}`, {
+        eventId,
+        contractAddress: event.contractAddress,
+        tokenId: event.tokenId,
+      });
+
       // Add the appropriate operation based on whether this is a mint or transfer
-      if (event.metadata && event.tokenUri) {
-        logger.info(`Processing ERC721 mint`, {
-          eventId,
-          contractAddress: event.contractAddress,
-          tokenId: event.tokenId,
-        });
-        tx = gtx.addTransactionToGtx('evm.erc721.mint', [
-          event.chain,
-          event.blockNumber,
-          hexToBuffer(event.contractAddress),
-          eventId,
-          event.tokenId,
-          hexToBuffer(event.to),
-          event.metadata,
-          event.tokenUri,
-          event.collection ?? null
-        ], tx);
-        processedAny = true;
-      } else {
-        logger.info(`Processing ERC721 transfer`, {
-          eventId,
-          contractAddress: event.contractAddress,
-          tokenId: event.tokenId,
-        });
-        tx = gtx.addTransactionToGtx('evm.erc721.transfer', [
-          event.chain,
-          event.blockNumber,
-          hexToBuffer(event.contractAddress),
-          eventId,
-          event.tokenId,
-          hexToBuffer(event.from),
-          hexToBuffer(event.to),
-        ], tx);
-        processedAny = true;
-      }
+      const { opName, args } = this.toOperation(event);
+      tx = gtx.addTransactionToGtx(opName, args, tx);
+      processedAny = true;
     }
 
     // If we didn't process any events, return a non-error
@@ -292,24 +271,55 @@ export class ERC721Forwarder extends Plugin<BatchedERC721ForwarderInput, ERC721E
       return err({ type: "non_error", context: "All events in batch were already processed" });
     }
 
-    // Set the signers from all inputs
-    tx.signers = inputs.map((i) => Buffer.from(i.pubkey, 'hex'));
-
     return ok(tx);
   }
 
   async validate(gtx: GTX, preparedData: ERC721Event[]): Promise<Result<GTX, OracleError>> {
-    const gtxBody = [gtx.blockchainRid, gtx.operations.map((op) => [op.opName, op.args]), gtx.signers] as RawGtxBody;
-    const digest = getDigestToSignFromRawGtxBody(gtxBody);
-    const signature = Buffer.from(ecdsaSign(digest, Buffer.from(config.privateKey, 'hex')).signature);
-
-    if (gtx.signatures) {
-      gtx.signatures.push(signature);
-    } else {
-      gtx.signatures = [signature];
+    // Events that were already processed on chain are left out by the primary
+    const verified = verifyGtx(gtx, {
+      blockchainRid: this._blockchainRid,
+      operations: preparedData.map((event) => this.toOperation(event)),
+      allowOmissions: true
+    });
+    if (verified.isErr()) {
+      return err(verified.error);
+    }
+
+    return ok(signGtx(gtx, config.privateKey));
+  }
+
+  private toOperation(event: ERC721Event): RellOperation {
+    const eventId = `${event.transactionHash}-${event.logIndex}`;
+
+    if (event.metadata && event.tokenUri) {
+      return {
+        opName: 'evm.erc721.mint',
+        args: [
+          event.chain,
+          event.blockNumber,
+          hexToBuffer(event.contractAddress),
+          eventId,
+          event.tokenId,
+          hexToBuffer(event.to),
+          event.metadata,
+          event.tokenUri,
+          event.collection ?? null
+        ]
+      };
     }
 
-    return ok(gtx);
+    return {
+      opName: 'evm.erc721.transfer',
+      args: [
+        event.chain,
+        event.blockNumber,
+        hexToBuffer(event.contractAddress),
+        eventId,
+        event.tokenId,
+        hexToBuffer(event.from),
+        hexToBuffer(event.to),
+      ]
+    };
   }
 
   async execute(_gtx: GTX): Promise<Result<boolean, OracleError>> {
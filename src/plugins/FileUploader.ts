@@ -1,15 +1,16 @@
-import { createClient, getDigestToSignFromRawGtxBody, gtx, type GTX, type RawGtxBody } from "postchain-client";
+import { createClient, gtx, type GTX, type RellOperation } from "postchain-client";
 import { Plugin } from "../core/plugin/Plugin";
 import type { Result } from "neverthrow";
 import { ok, err } from "neverthrow";
 import type { OracleError } from "../util/errors";
-import { ecdsaSign } from "secp256k1";
 import config from "../config";
 import { logger } from "../util/monitoring";
 import { postchainConfig } from "../util/postchain-config";
 import { validateAuth, type AccountSignature } from "../util/auth";
 import type { ProcessInput } from "../core/types/Protocol";
 import { createHash } from "crypto";
+import { signGtx } from "../util/gtx";
+import { verifyGtx } from "../core/validation/verify-gtx";
 
 type FileUploadInput = {
   auth: AccountSignature;
@@ -28,7 +29,11 @@ export class FileUploader extends Plugin<FileUploadInput, FileUploadInput, GTX,
   private readonly _blockchainRid: Buffer;
 
   constructor() {
-    super({ id: FileUploader.pluginId });
+    super({
+      id: FileUploader.pluginId,
+      version: "1.0.0",
+      allowedOperations: ["filestorage.store_file"]
+    });
 
     this._directoryNodeUrlPool = config.abstractionChain.directoryNodeUrlPool as string[];
     this._blockchainRid = Buffer.from(config.abstractionChain.blockchainRid as string, "hex");
@@ -56,32 +61,34 @@ export class FileUploader extends Plugin<FileUploadInput, FileUploadInput, GTX,
       return err({ type: "process_error", context: "No input data" });
     }
 
-    // Ensure data is a Buffer
-    const fileData = Buffer.isBuffer(selectedData.data.data) 
-      ? selectedData.data.data 
-      : Buffer.from(selectedData.data.data);
+    const { opName, args } = this.buildOperation(selectedData.data);
 
     let tx = gtx.emptyGtx(this._blockchainRid);
-    tx = gtx.addTransactionToGtx("filestorage.store_file", [fileData, selectedData.data.contentType, selectedData.data.auth.account], tx);
-
-    tx.signers = input.map((i) => Buffer.from(i.pubkey, "hex"));
+    tx = gtx.addTransactionToGtx(opName, args, tx);
 
     return ok(tx);
   }
 
   async validate(gtx: GTX, preparedData: FileUploadInput): Promise<Result<GTX, OracleError>> {
-    const gtxBody = [gtx.blockchainRid, gtx.operations.map((op) => [op.opName, op.args]), gtx.signers] as RawGtxBody;
-    const digest = getDigestToSignFromRawGtxBody(gtxBody);
-    const signature = Buffer.from(ecdsaSign(digest, Buffer.from(config.privateKey, 'hex')).signature);
-
-    if (gtx.signatures) {
-      gtx.signatures.push(signature);
-    } else {
-      gtx.signatures = [signature];
+    const verified = verifyGtx(gtx, {
+      blockchainRid: this._blockchainRid,
+      operations: [this.buildOperation(preparedData)]
+    });
+    if (verified.isErr()) {
+      return err(verified.error);
     }
 
     logger.info(`File upload validated successfully`);
-    return ok(gtx);
+    return ok(signGtx(gtx, config.privateKey));
+  }
+
+  private buildOperation(input: FileUploadInput): RellOperation {
+    // Ensure data is a Buffer
+    const fileData = Buffer.isBuffer(input.data) 
+      ? input.data 
+      : Buffer.from(input.data);
+
+    return { opName: "filestorage.store_file", args: [fileData, input.contentType, input.auth.account] };
   }
 
   async execute(_gtx: GTX): Promise<Result<FileUploadOutput, OracleError>> {
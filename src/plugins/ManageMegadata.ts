@@ -1,15 +1,16 @@
-import { createClient, getDigestToSignFromRawGtxBody, gtx, type GTX, type RawGtxBody } from "postchain-client";
+import { createClient, gtx, type GTX, type RellOperation } from "postchain-client";
 import { Plugin } from "../core/plugin/Plugin";
 import type { Result } from "neverthrow";
 import { ok, err } from "neverthrow";
 import type { OracleError } from "../util/errors";
-import { ecdsaSign } from "secp256k1";
 import config from "../config";
 import { logger } from "../util/monitoring";
 import { postchainConfig } from "../util/postchain-config";
 import { validateAuth, type AccountSignature } from "../util/auth";
 import type { ProcessInput } from "../core/types/Protocol";
-import { randomUUIDv7 } from "bun";
+import type { TaskContext } from "../core/types/TaskContext";
+import { signGtx } from "../util/gtx";
+import { verifyGtx } from "../core/validation/verify-gtx";
 
 type ManageMegadataInput = {
   auth: AccountSignature;
@@ -33,7 +34,11 @@ export class ManageMegadata extends Plugin<ManageMegadataInput, ManageMegadataIn
   private readonly _blockchainRid: Buffer;
 
   constructor() {
-    super({ id: ManageMegadata.pluginId });
+    super({
+      id: ManageMegadata.pluginId,
+      version: "2.0.0",
+      allowedOperations: ["megadata.create_collection", "megadata.create_item", "nop"]
+    });
 
     this._directoryNodeUrlPool = config.abstractionChain.directoryNodeUrlPool as string[];
     this._blockchainRid = Buffer.from(config.abstractionChain.blockchainRid as string, "hex");
@@ -49,40 +54,51 @@ export class ManageMegadata extends Plugin<ManageMegadataInput, ManageMegadataIn
     return ok(input);
   }
 
-  async process(input: ProcessInput<ManageMegadataInput>[]): Promise<Result<GTX, OracleError>> {
+  async process(input: ProcessInput<ManageMegadataInput>[], context: TaskContext): Promise<Result<GTX, OracleError>> {
     logger.info(`Processing manage megadata`);
     const selectedData = input[0];
     if (!selectedData) {
       return err({ type: "process_error", context: "No input data" });
     }
 
-    let tx = gtx.emptyGtx(this._blockchainRid);
-    const id = Buffer.from(randomUUIDv7("hex"), "hex");
-    tx = gtx.addTransactionToGtx("megadata.create_collection", [selectedData.data.auth.account, id, selectedData.data.collection], tx);
+    const id = this.collectionId(context);
 
-    for (const item of selectedData.data.items) {
-      tx = gtx.addTransactionToGtx("megadata.create_item", [id, item.tokenId, JSON.stringify(item.properties)], tx);
+    let tx = gtx.emptyGtx(this._blockchainRid);
+    for (const operation of this.buildOperations(selectedData.data, id)) {
+      tx = gtx.addTransactionToGtx(operation.opName, operation.args, tx);
     }
 
-    tx = gtx.addTransactionToGtx("nop", [Math.floor(Math.random() * 1000000)], tx);
-    tx.signers = input.map((i) => Buffer.from(i.pubkey, "hex"));
+    tx = gtx.addTransactionToGtx("nop", [context.nonce], tx);
 
     return ok(tx);
   }
 
-  async validate(gtx: GTX, preparedData: ManageMegadataInput): Promise<Result<GTX, OracleError>> {
-    const gtxBody = [gtx.blockchainRid, gtx.operations.map((op) => [op.opName, op.args]), gtx.signers] as RawGtxBody;
-    const digest = getDigestToSignFromRawGtxBody(gtxBody);
-    const signature = Buffer.from(ecdsaSign(digest, Buffer.from(config.privateKey, 'hex')).signature);
-
-    if (gtx.signatures) {
-      gtx.signatures.push(signature);
-    } else {
-      gtx.signatures = [signature];
+  async validate(gtx: GTX, preparedData: ManageMegadataInput, context: TaskContext): Promise<Result<GTX, OracleError>> {
+    const verified = verifyGtx(gtx, {
+      blockchainRid: this._blockchainRid,
+      operations: [...this.buildOperations(preparedData, this.collectionId(context)), { opName: "nop", args: [context.nonce] }]
+    });
+    if (verified.isErr()) {
+      return err(verified.error);
     }
 
     logger.info(`Manage megadata validated successfully`);
-    return ok(gtx);
+    return ok(signGtx(gtx, config.privateKey));
+  }
+
+  // Collection ids are 16 bytes, taken from the nonce so every node derives the same one
+  private collectionId(context: TaskContext): Buffer {
+    return context.nonce.subarray(0, 16);
+  }
+
+  private buildOperations(data: ManageMegadataInput, id: Buffer): RellOperation[] {
+    return [
+      { opName: "megadata.create_collection", args: [data.auth.account, id, data.collection] },
+      ...data.items.map((item) => ({
+        opName: "megadata.create_item",
+        args: [id, item.tokenId, JSON.stringify(item.properties)]
+      }))
+    ];
   }
 
   async execute(_gtx: GTX): Promise<Result<ManageMegadataOutput, OracleError>> {
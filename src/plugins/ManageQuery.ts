@@ -1,16 +1,16 @@
-import { createClient, getDigestToSignFromRawGtxBody, gtx, type GTX, type RawGtxBody } from "postchain-client";
+import { createClient, gtx, type GTX, type RellOperation } from "postchain-client";
 import { Plugin } from "../core/plugin/Plugin";
-import type { Result } from "neverthrow";
-import { ok, err } from "neverthrow";
+import { ok, err, ResultAsync, type Result } from "neverthrow";
 import type { OracleError } from "../util/errors";
-import { ecdsaSign } from "secp256k1";
 import config from "../config";
 import { logger } from "../util/monitoring";
 import { postchainConfig } from "../util/postchain-config";
 import { hexToBuffer } from "../util/hex";
 import { validateAuth, type AccountSignature } from "../util/auth";
 import type { ProcessInput } from "../core/types/Protocol";
-import { randomBytes } from "ethers";
+import { signGtx } from "../util/gtx";
+import { verifyGtx } from "../core/validation/verify-gtx";
+import type { TaskContext } from "../core/types/TaskContext";
 
 type ManageQueryInput = {
   auth: AccountSignature;
@@ -32,7 +32,11 @@ export class ManageQuery extends Plugin<ManageQueryInput, ManageQueryInput, GTX,
   private readonly _blockchainRid: Buffer;
 
   constructor() {
-    super({ id: ManageQuery.pluginId });
+    super({
+      id: ManageQuery.pluginId,
+      version: "2.0.0",
+      allowedOperations: ["asset_groups.create_asset_group", "asset_groups.add_asset_group_filter", "asset_groups.remove_asset_group_filter", "nop"]
+    });
 
     this._directoryNodeUrlPool = config.abstractionChain.directoryNodeUrlPool as string[];
     this._blockchainRid = Buffer.from(config.abstractionChain.blockchainRid as string, "hex");
@@ -52,70 +56,94 @@ export class ManageQuery extends Plugin<ManageQueryInput, ManageQueryInput, GTX,
     return ok(input);
   }
 
-  async process(input: ProcessInput<ManageQueryInput>[]): Promise<Result<GTX, OracleError>> {
+  async process(input: ProcessInput<ManageQueryInput>[], context: TaskContext): Promise<Result<GTX, OracleError>> {
     logger.info(`Processing manage query`);
     const selectedData = input[0];
     if (!selectedData) {
       return err({ type: "process_error", context: "No input data" });
     }
 
-    let tx = gtx.emptyGtx(this._blockchainRid);
-
-    if (!selectedData.data.id) {
-      const id = Buffer.from(randomBytes(32));
-      tx = gtx.addTransactionToGtx("asset_groups.create_asset_group", [id, selectedData.data.name!, selectedData.data.auth.account], tx);
-      for (const filter of selectedData.data.filters) {
-        tx = gtx.addTransactionToGtx("asset_groups.add_asset_group_filter", [id, filter.source, filter.asset, filter.requires], tx);
-      }
-    } else {
-      const assetGroupId = hexToBuffer(selectedData.data.id);
-      const client = await createClient({
-        ...postchainConfig,
-        directoryNodeUrlPool: this._directoryNodeUrlPool,
-        blockchainRid: this._blockchainRid.toString('hex'),
-      });
-      
-      const currentFilters = await client.query<{ source: string, asset: string, requires: number }[]>("asset_groups.get_asset_group_filters", { asset_group_id: assetGroupId });
-      
-      // Detect which filters needs to be added or removed. If a filter has a different requires then it should be deleted and then re-added.
-      for (const filter of selectedData.data.filters) {
-        const currentFilter = currentFilters.find((f) => f.source === filter.source && f.asset === filter.asset);
-        if (currentFilter && currentFilter.requires !== filter.requires) {
-          tx = gtx.addTransactionToGtx("asset_groups.remove_asset_group_filter", [assetGroupId, filter.source, filter.asset], tx);
-          tx = gtx.addTransactionToGtx("asset_groups.add_asset_group_filter", [assetGroupId, filter.source, filter.asset, filter.requires], tx);
-        }
-        if (!currentFilter) {
-          tx = gtx.addTransactionToGtx("asset_groups.add_asset_group_filter", [assetGroupId, filter.source, filter.asset, filter.requires], tx);
-        }
-      }
+    // New asset groups take the nonce of the task as id, existing ones are updated in place
+    const id = selectedData.data.id ? hexToBuffer(selectedData.data.id) : context.nonce;
+    const operations = await this.buildOperations(selectedData.data, id);
+    if (operations.isErr()) {
+      return err(operations.error);
+    }
 
-      // If a filter is not in the current filters, it should be removed
-      for (const filter of currentFilters) {
-        if (!selectedData.data.filters.find((f) => f.source === filter.source && f.asset === filter.asset)) {
-          tx = gtx.addTransactionToGtx("asset_groups.remove_asset_group_filter", [assetGroupId, filter.source, filter.asset], tx);
-        }
-      }
+    let tx = gtx.emptyGtx(this._blockchainRid);
+    for (const operation of operations.value) {
+      tx = gtx.addTransactionToGtx(operation.opName, operation.args, tx);
     }
 
-    tx = gtx.addTransactionToGtx("nop", [Math.floor(Math.random() * 1000000)], tx);
-    tx.signers = input.map((i) => Buffer.from(i.pubkey, "hex"));
+    tx = gtx.addTransactionToGtx("nop", [context.nonce], tx);
 
     return ok(tx);
   }
 
-  async validate(gtx: GTX, preparedData: ManageQueryInput): Promise<Result<GTX, OracleError>> {
-    const gtxBody = [gtx.blockchainRid, gtx.operations.map((op) => [op.opName, op.args]), gtx.signers] as RawGtxBody;
-    const digest = getDigestToSignFromRawGtxBody(gtxBody);
-    const signature = Buffer.from(ecdsaSign(digest, Buffer.from(config.privateKey, 'hex')).signature);
+  async validate(gtx: GTX, preparedData: ManageQueryInput, context: TaskContext): Promise<Result<GTX, OracleError>> {
+    const id = preparedData.id ? hexToBuffer(preparedData.id) : context.nonce;
+    const operations = await this.buildOperations(preparedData, id);
+    if (operations.isErr()) {
+      return err(operations.error);
+    }
 
-    if (gtx.signatures) {
-      gtx.signatures.push(signature);
-    } else {
-      gtx.signatures = [signature];
+    const verified = verifyGtx(gtx, {
+      blockchainRid: this._blockchainRid,
+      operations: [...operations.value, { opName: "nop", args: [context.nonce] }]
+    });
+    if (verified.isErr()) {
+      return err(verified.error);
     }
 
     logger.info(`Manage query validated successfully`);
-    return ok(gtx);
+    return ok(signGtx(gtx, config.privateKey));
+  }
+
+  private async buildOperations(data: ManageQueryInput, id: Buffer): Promise<Result<RellOperation[], OracleError>> {
+    const operations: RellOperation[] = [];
+
+    if (!data.id) {
+      operations.push({ opName: "asset_groups.create_asset_group", args: [id, data.name!, data.auth.account] });
+      for (const filter of data.filters) {
+        operations.push({ opName: "asset_groups.add_asset_group_filter", args: [id, filter.source, filter.asset, filter.requires] });
+      }
+      return ok(operations);
+    }
+
+    const client = await createClient({
+      ...postchainConfig,
+      directoryNodeUrlPool: this._directoryNodeUrlPool,
+      blockchainRid: this._blockchainRid.toString('hex'),
+    });
+
+    const currentFilters = await ResultAsync.fromPromise(
+      client.query<{ source: string, asset: string, requires: number }[]>("asset_groups.get_asset_group_filters", { asset_group_id: id }),
+      (error): OracleError => ({ type: "process_error", context: `Failed to get asset group filters: ${error}` })
+    );
+    if (currentFilters.isErr()) {
+      return err(currentFilters.error);
+    }
+
+    // Detect which filters needs to be added or removed. If a filter has a different requires then it should be deleted and then re-added.
+    for (const filter of data.filters) {
+      const currentFilter = currentFilters.value.find((f) => f.source === filter.source && f.asset === filter.asset);
+      if (currentFilter && currentFilter.requires !== filter.requires) {
+        operations.push({ opName: "asset_groups.remove_asset_group_filter", args: [id, filter.source, filter.asset] });
+        operations.push({ opName: "asset_groups.add_asset_group_filter", args: [id, filter.source, filter.asset, filter.requires] });
+      }
+      if (!currentFilter) {
+        operations.push({ opName: "asset_groups.add_asset_group_filter", args: [id, filter.source, filter.asset, filter.requires] });
+      }
+    }
+
+    // If a filter is not in the current filters, it should be removed
+    for (const filter of currentFilters.value) {
+      if (!data.filters.find((f) => f.source === filter.source && f.asset === filter.asset)) {
+        operations.push({ opName: "asset_groups.remove_asset_group_filter", args: [id, filter.source, filter.asset] });
+      }
+    }
+
+    return ok(operations);
   }
 
   async execute(_gtx: GTX): Promise<Result<void, OracleError>> {
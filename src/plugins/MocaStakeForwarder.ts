@@ -1,12 +1,11 @@
 import type { Log } from "ethers";
 import { Plugin } from "../core/plugin/Plugin";
 import type { EventLog } from "ethers";
-import { ChainConfirmationLevel, createClient, getDigestToSignFromRawGtxBody, gtx, type GTX, type RawGtxBody } from "postchain-client";
+import { ChainConfirmationLevel, createClient, gtx, type GTX, type RellOperation } from "postchain-client";
 import type { ProcessInput } from "../core/types/Protocol";
 import { logger, rpcCallsTotal, txProcessedTotal } from "../util/monitoring";
 import { dataSlice, ethers } from "ethers";
 import { getAddress } from "ethers/address";
-import { ecdsaSign } from "secp256k1";
 import config from "../config";
 import { hexToBuffer } from "../util/hex";
 import { Interface } from "ethers";
@@ -19,6 +18,8 @@ import { EVM_THROTTLE_LIMIT } from "../util/constants";
 import { createRandomProvider } from "../util/create-provider";
 import type { Rpc } from "../core/types/config/Rpc";
 import { postchainConfig } from "../util/postchain-config";
+import { signGtx } from "../util/gtx";
+import { verifyGtx } from "../core/validation/verify-gtx";
 
 export type MocaStakeForwarderInput = {
   chain: string;
@@ -44,7 +45,11 @@ export class MocaStakeForwarder extends Plugin<MocaStakeForwarderInput, StakingE
   private readonly _blockchainRid: Buffer;
 
   constructor() {
-    super({ id: MocaStakeForwarder.pluginId });
+    super({
+      id: MocaStakeForwarder.pluginId,
+      version: "1.0.0",
+      allowedOperations: ["evm.erc20.mint", "evm.erc20.destroy"]
+    });
     this._blockchainRid = Buffer.from(config.abstractionChain.blockchainRid, 'hex');
     this._directoryNodeUrlPool = config.abstractionChain.directoryNodeUrlPool;
   }
@@ -183,7 +188,8 @@ export class MocaStakeForwarder extends Plugin<MocaStakeForwarderInput, StakingE
 
   async process(input: ProcessInput<StakingEvent[]>[]): Promise<Result<GTX, OracleError>> {
     const emptyGtx = gtx.emptyGtx(this._blockchainRid);
-    const selectedInput = input[Math.floor(Math.random() * input.length)];
+    // All inputs carry the prepared data the peers agreed on
+    const selectedInput = input[0];
     if (!selectedInput) return err({ type: "process_error", context: `No input data` });
 
     const client = await createClient({
@@ -228,51 +234,60 @@ export class MocaStakeForwarder extends Plugin<MocaStakeForwarderInput, StakingE
         event_id: eventId
       });
 
-      if (event.type === "staked" || event.type === "staked_behalf") {
-        tx = gtx.addTransactionToGtx('evm.erc20.mint', [
-          event.chain,
-          event.blockNumber,
-          hexToBuffer(event.contractAddress),
-          eventId,
-          hexToBuffer(event.from),
-          event.amount,
-          18,
-          "Moca Stake",
-          "MOCASTAKE"
-        ], tx);
-      } else if (event.type === "unstaked") {
-        tx = gtx.addTransactionToGtx('evm.erc20.destroy', [
-          event.chain,
-          event.blockNumber,
-          hexToBuffer(event.contractAddress),
-          eventId,
-          hexToBuffer(event.from),
-          event.amount
-        ], tx);
-      }
+      const { opName, args } = this.toOperation(event, eventId);
+      tx = gtx.addTransactionToGtx(opName, args, tx);
     }
 
     if (tx.operations.length === 0) {
       return err({ type: "non_error", context: `No transactions to execute` });
     }
 
-    tx.signers = input.map((i) => Buffer.from(i.pubkey, 'hex'));
-
     return ok(tx);
   }
 
   async validate(gtx: GTX, preparedData: StakingEvent[]): Promise<Result<GTX, OracleError>> {
-    const gtxBody = [gtx.blockchainRid, gtx.operations.map((op) => [op.opName, op.args]), gtx.signers] as RawGtxBody;
-    const digest = getDigestToSignFromRawGtxBody(gtxBody);
-    const signature = Buffer.from(ecdsaSign(digest, Buffer.from(config.privateKey, 'hex')).signature);
-
-    if (gtx.signatures) {
-      gtx.signatures.push(signature);
-    } else {
-      gtx.signatures = [signature];
+    // Events that were already processed on chain are left out by the primary
+    const verified = verifyGtx(gtx, {
+      blockchainRid: this._blockchainRid,
+      operations: preparedData.map((event, i) => this.toOperation(event, `${event.transactionHash}-${event.logIndex}-${i}`)),
+      allowOmissions: true
+    });
+    if (verified.isErr()) {
+      return err(verified.error);
+    }
+
+    return ok(signGtx(gtx, config.privateKey));
+  }
+
+  private toOperation(event: StakingEvent, eventId: string): RellOperation {
+    if (event.type === "unstaked") {
+      return {
+        opName: 'evm.erc20.destroy',
+        args: [
+          event.chain,
+          event.blockNumber,
+          hexToBuffer(event.contractAddress),
+          eventId,
+          hexToBuffer(event.from),
+          event.amount
+        ]
+      };
     }
 
-    return ok(gtx);
+    return {
+      opName: 'evm.erc20.mint',
+      args: [
+        event.chain,
+        event.blockNumber,
+        hexToBuffer(event.contractAddress),
+        eventId,
+        hexToBuffer(event.from),
+        event.amount,
+        18,
+        "Moca Stake",
+        "MOCASTAKE"
+      ]
+    };
   }
 
   async execute(_gtx: GTX): Promise<Result<boolean, OracleError>> {
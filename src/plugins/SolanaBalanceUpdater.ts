@@ -1,5 +1,6 @@
 import { Plugin } from "../core/plugin/Plugin";
 import type { ProcessInput } from "../core/types/Protocol";
+import type { TaskContext } from "../core/types/TaskContext";
 import { 
   logger, 
   rpcCallsTotal, 
@@ -10,8 +11,7 @@ import {
   throttleWaitTime
 } from "../util/monitoring";
 import config from "../config";
-import { ChainConfirmationLevel, createClient, getDigestToSignFromRawGtxBody, gtx, type GTX, type RawGtxBody } from "postchain-client";
-import { ecdsaSign } from "secp256k1";
+import { ChainConfirmationLevel, createClient, gtx, type GTX } from "postchain-client";
 import { Connection, PublicKey, type AccountInfo, type ParsedAccountData, type RpcResponseAndContext } from "@solana/web3.js";
 import { getAccount, getAssociatedTokenAddress, type Account } from "@solana/spl-token";
 import { err, ok, type Result } from "neverthrow";
@@ -20,6 +20,8 @@ import { executeThrottled } from "../util/throttle";
 import { SOLANA_THROTTLE_LIMIT } from "../util/constants";
 import { postchainConfig } from "../util/postchain-config";
 import { Metaplex } from "@metaplex-foundation/js";
+import { signGtx } from "../util/gtx";
+import { matchArg, verifyGtx } from "../core/validation/verify-gtx";
 
 type SolanaBalanceUpdaterInput = {
   tokenMint: string;
@@ -36,19 +38,50 @@ type SolanaBalanceUpdaterOutput = {
   message?: string;
 };
 
-export class SolanaBalanceUpdater extends Plugin<SolanaBalanceUpdaterInput, BalanceUpdateEvent, GTX, SolanaBalanceUpdaterOutput> {
+// Updates batched across tasks are merged into lists and submitted in a single transaction
+type SolanaBalanceUpdaterRequest = SolanaBalanceUpdaterInput | SolanaBalanceUpdaterInput[];
+type PreparedBalanceUpdate = BalanceUpdateEvent | BalanceUpdateEvent[];
+
+export class SolanaBalanceUpdater extends Plugin<SolanaBalanceUpdaterRequest, PreparedBalanceUpdate, GTX, SolanaBalanceUpdaterOutput> {
   static readonly pluginId = "solana-balance-updater";
   private readonly _directoryNodeUrlPool: string[];
   private readonly _blockchainRid: string;
+  private readonly _maxSlotDrift: number;
 
   constructor() {
-    super({ id: SolanaBalanceUpdater.pluginId });
+    super({
+      id: SolanaBalanceUpdater.pluginId,
+      version: "2.0.0",
+      allowedOperations: ["solana.spl.balance_update", "nop"]
+    });
 
     this._directoryNodeUrlPool = config.abstractionChain.directoryNodeUrlPool;
     this._blockchainRid = config.abstractionChain.blockchainRid;
+    // Slots a secondary accepts between the slot it read and the one in the transaction
+    this._maxSlotDrift = (this.config["maxSlotDrift"] as number) ?? 150;
+  }
+
+  mergeInputs(inputs: SolanaBalanceUpdaterRequest[]): SolanaBalanceUpdaterRequest | null {
+    return inputs.length > 0 ? inputs.flatMap(toList) : null;
   }
 
-  async prepare(input: SolanaBalanceUpdaterInput): Promise<Result<BalanceUpdateEvent, OracleError>> {
+  async prepare(request: SolanaBalanceUpdaterRequest): Promise<Result<PreparedBalanceUpdate, OracleError>> {
+    if (!Array.isArray(request)) {
+      return this.prepareBalanceUpdate(request);
+    }
+
+    const events: BalanceUpdateEvent[] = [];
+    for (const input of request) {
+      const event = await this.prepareBalanceUpdate(input);
+      if (event.isErr()) {
+        return err(event.error);
+      }
+      events.push(event.value);
+    }
+    return ok(events);
+  }
+
+  private async prepareBalanceUpdate(input: SolanaBalanceUpdaterInput): Promise<Result<BalanceUpdateEvent, OracleError>> {
     const prepareTimer = solanaBalanceUpdateDuration.startTimer({ operation: 'prepare' });
     
     logger.info(`Preparing balance update for user account`, {
@@ -198,7 +231,13 @@ export class SolanaBalanceUpdater extends Plugin<SolanaBalanceUpdaterInput, Bala
     });
   }
 
-  async process(input: ProcessInput<BalanceUpdateEvent>[]): Promise<Result<GTX, OracleError>> {
+  // The slot is read at prepare time and differs between nodes, so it is left out of the consensus
+  consensusData(preparedOutput: PreparedBalanceUpdate): unknown {
+    const withoutSlot = (event: BalanceUpdateEvent) => ({ operation: event.operation, args: event.args.slice(0, 5) });
+    return Array.isArray(preparedOutput) ? preparedOutput.map(withoutSlot) : withoutSlot(preparedOutput);
+  }
+
+  async process(input: ProcessInput<PreparedBalanceUpdate>[], context: TaskContext): Promise<Result<GTX, OracleError>> {
     const processTimer = solanaBalanceUpdateDuration.startTimer({ operation: 'process' });
     
     const selectedData = input[0];
@@ -207,32 +246,34 @@ export class SolanaBalanceUpdater extends Plugin<SolanaBalanceUpdaterInput, Bala
       return err({ type: "process_error", context: `No input data` });
     }
 
-    const { operation, args }: BalanceUpdateEvent = selectedData.data;
-
-    const emptyGtx = gtx.emptyGtx(Buffer.from(this._blockchainRid, 'hex'));
-    let tx = gtx.addTransactionToGtx(operation, args, emptyGtx);
-    tx = gtx.addTransactionToGtx('nop', [Math.floor(Math.random() * 1000000)], tx);
-    tx.signers = input.map((i) => Buffer.from(i.pubkey, 'hex'));
+    let tx = gtx.emptyGtx(Buffer.from(this._blockchainRid, 'hex'));
+    for (const { operation, args } of toList(selectedData.data)) {
+      tx = gtx.addTransactionToGtx(operation, args, tx);
+    }
+    tx = gtx.addTransactionToGtx('nop', [context.nonce], tx);
     
     processTimer({ status: 'success' });
     return ok(tx);
   }
 
-  async validate(gtx: GTX, preparedData: BalanceUpdateEvent): Promise<Result<GTX, OracleError>> {
+  async validate(gtx: GTX, preparedData: PreparedBalanceUpdate, context: TaskContext): Promise<Result<GTX, OracleError>> {
     const validateTimer = solanaBalanceUpdateDuration.startTimer({ operation: 'validate' });
-    
-    const gtxBody = [gtx.blockchainRid, gtx.operations.map((op) => [op.opName, op.args]), gtx.signers] as RawGtxBody;
-    const digest = getDigestToSignFromRawGtxBody(gtxBody);
-    const signature = Buffer.from(ecdsaSign(digest, Buffer.from(config.privateKey, 'hex')).signature);
-
-    if (gtx.signatures) {
-      gtx.signatures.push(signature);
-    } else {
-      gtx.signatures = [signature];
+
+    // The slot was read by the primary and is not expected to match our own, only to be close to it
+    const verified = verifyGtx(gtx, {
+      blockchainRid: Buffer.from(this._blockchainRid, 'hex'),
+      operations: [
+        ...toList(preparedData).map((event) => ({ opName: event.operation, args: [...event.args.slice(0, 5), this.nearSlot(event.args[5])] })),
+        { opName: "nop", args: [context.nonce] }
+      ]
+    });
+    if (verified.isErr()) {
+      validateTimer({ status: 'error' });
+      return err(verified.error);
     }
 
     validateTimer({ status: 'success' });
-    return ok(gtx);
+    return ok(signGtx(gtx, config.privateKey));
   }
 
   async execute(_gtx: GTX): Promise<Result<SolanaBalanceUpdaterOutput, OracleError>> {
@@ -268,6 +309,10 @@ export class SolanaBalanceUpdater extends Plugin<SolanaBalanceUpdaterInput, Bala
     });
   }
 
+  private nearSlot(ownSlot: number) {
+    return matchArg((slot) => (typeof slot === "number" || typeof slot === "bigint") && Math.abs(Number(slot) - ownSlot) <= this._maxSlotDrift);
+  }
+
   private getRpcUrl() {
     const rpcs = config.rpc["solana"];
     if (!rpcs) throw new Error(`No RPC URL found for chain solana`);
@@ -278,4 +323,6 @@ export class SolanaBalanceUpdater extends Plugin<SolanaBalanceUpdaterInput, Bala
     logger.debug(`Selected RPC URL: ${rpcUrl}`);
     return rpcUrl;
   }
-}
\ No newline at end of file
+}
+
+const toList = <T>(value: T | T[]): T[] => Array.isArray(value) ? value : [value];
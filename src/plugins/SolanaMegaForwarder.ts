@@ -1,8 +1,7 @@
 import { Connection, type VersionedTransactionResponse } from "@solana/web3.js";
 import type { ProcessInput } from "../core/types/Protocol";
-import { ChainConfirmationLevel, createClient, getDigestToSignFromRawGtxBody, gtx, type GTX, type RawGtxBody } from "postchain-client";
+import { ChainConfirmationLevel, createClient, gtx, type GTX } from "postchain-client";
 import config from "../config";
-import { ecdsaSign } from "secp256k1";
 import { Plugin } from "../core/plugin/Plugin";
 import { logger, rpcCallsTotal, txProcessedTotal } from "../util/monitoring";
 import { err, ok, type Result } from "neverthrow";
@@ -10,6 +9,9 @@ import type { OracleError } from "../util/errors";
 import { executeThrottled } from "../util/throttle";
 import { SOLANA_THROTTLE_LIMIT } from "../util/constants";
 import { postchainConfig } from "../util/postchain-config";
+import { signGtx } from "../util/gtx";
+import { verifyGtx } from "../core/validation/verify-gtx";
+import { isOperationAllowed } from "../core/validation/signing-policy";
 
 type SolanaMegaForwarderInput = {
   txSignature: string;
@@ -34,7 +36,11 @@ export class SolanaMegaForwarder extends Plugin<SolanaMegaForwarderInput, Event,
   private readonly _megaYoursBlockchainRid: Buffer;
 
   constructor() {
-    super({ id: SolanaMegaForwarder.pluginId });
+    super({
+      id: SolanaMegaForwarder.pluginId,
+      version: "1.0.0",
+      allowedOperations: ["solana.megadata.register_token", "solana.megadata.update_metadata"]
+    });
 
     const solanaRpcUrl = config.rpc["solana_devnet"]?.[0] as string;
     if (!solanaRpcUrl) throw new Error("No Solana RPC URL found");
@@ -123,6 +129,10 @@ export class SolanaMegaForwarder extends Plugin<SolanaMegaForwarderInput, Event,
     } else if (operation === 'solana.megadata.update_metadata') {
       return this.handleTokenUpdate(input.txSignature, transaction.value!, JSON.parse(param));
     } else {
+      if (!isOperationAllowed(this.metadata, operation)) {
+        logger.warn(`Refusing misc operation ${operation}: not allowed by the signing policy`);
+        return err({ type: "permanent_error", context: `Operation ${operation} is not allowed` });
+      }
       const args = [param];
       logger.info(`Misc operation`, operation);
       return ok({ operation, args });
@@ -136,22 +146,19 @@ export class SolanaMegaForwarder extends Plugin<SolanaMegaForwarderInput, Event,
 
     const emptyGtx = gtx.emptyGtx(this._megaYoursBlockchainRid);
     const tx = gtx.addTransactionToGtx(operation, args, emptyGtx);
-    tx.signers = input.map((i) => Buffer.from(i.pubkey, 'hex'));
     return ok(tx);
   }
 
   async validate(gtx: GTX, preparedData: Event): Promise<Result<GTX, OracleError>> {
-    const gtxBody = [gtx.blockchainRid, gtx.operations.map((op) => [op.opName, op.args]), gtx.signers] as RawGtxBody;
-    const digest = getDigestToSignFromRawGtxBody(gtxBody);
-    const signature = Buffer.from(ecdsaSign(digest, Buffer.from(config.privateKey, 'hex')).signature);
-
-    if (gtx.signatures) {
-      gtx.signatures.push(signature);
-    } else {
-      gtx.signatures = [signature];
+    const verified = verifyGtx(gtx, {
+      blockchainRid: this._megaYoursBlockchainRid,
+      operations: [{ opName: preparedData.operation, args: preparedData.args }]
+    });
+    if (verified.isErr()) {
+      return err(verified.error);
     }
 
-    return ok(gtx);
+    return ok(signGtx(gtx, config.privateKey));
   }
 
   async execute(_gtx: GTX): Promise<Result<boolean, OracleError>> {
@@ -0,0 +1,38 @@
+import { TaskJournal } from "../core/task/TaskJournal";
+import type { TaskStatus } from "../core/types/TaskRecord";
+import { logger } from "../util/monitoring";
+
+const DISCARDABLE_STATUSES: TaskStatus[] = ["failed", "dead_lettered", "aborted"];
+
+const adminTaskDiscard = async (req: Request) => {
+  const body = await req.json() as { ids?: unknown };
+  if (!Array.isArray(body.ids) || !body.ids.every((id) => typeof id === "string")) {
+    return new Response(JSON.stringify({ error: "bad_input", context: "Expected a list of task ids" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const journal = TaskJournal.getInstance();
+  const results = (body.ids as string[]).map((id) => {
+    const record = journal.get(id);
+    if (!record) {
+      return { id, error: "bad_input", context: `Task ${id} not found` };
+    }
+
+    if (!DISCARDABLE_STATUSES.includes(record.status)) {
+      return { id, error: "bad_input", context: `Task ${id} is ${record.status}` };
+    }
+
+    journal.discard(id);
+    logger.info(`Discarded task ${id} for plugin ${record.pluginId}`);
+    return { id, status: "discarded" };
+  });
+
+  return new Response(JSON.stringify(results), {
+    status: 200,
+    headers: { "Content-Type": "application/json" }
+  });
+};
+
+export default adminTaskDiscard;
@@ -0,0 +1,39 @@
+import { TaskJournal } from "../core/task/TaskJournal";
+import type { TaskStatus } from "../core/types/TaskRecord";
+import { toReadableJson } from "../util/json";
+
+const LISTABLE_STATUSES: TaskStatus[] = ["failed", "dead_lettered", "aborted", "queued", "retrying", "discarded"];
+
+const adminTaskList = async (req: Request) => {
+  const params = new URL(req.url).searchParams;
+  const statuses = (params.get("status")?.split(",") ?? ["failed", "dead_lettered"]) as TaskStatus[];
+  const invalid = statuses.find((status) => !LISTABLE_STATUSES.includes(status));
+  if (invalid) {
+    return new Response(JSON.stringify({ error: "bad_input", context: `Cannot list tasks with status ${invalid}, expected one of ${LISTABLE_STATUSES.join(", ")}` }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const limit = Number(params.get("limit") ?? 100);
+  const records = TaskJournal.getInstance().list(statuses, params.get("pluginId") ?? undefined, Number.isInteger(limit) && limit > 0 ? limit : 100);
+
+  return new Response(toReadableJson(records.map((record) => ({
+    id: record.id,
+    pluginId: record.pluginId,
+    phase: record.phase,
+    status: record.status,
+    input: record.input,
+    error: record.error,
+    peerFailures: record.peerFailures,
+    attempts: record.attempts,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    finishedAt: record.finishedAt
+  }))), {
+    status: 200,
+    headers: { "Content-Type": "application/json" }
+  });
+};
+
+export default adminTaskList;
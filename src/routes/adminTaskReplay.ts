@@ -0,0 +1,68 @@
+import { Result } from "neverthrow";
+import { LeaderElection } from "../core/leader/LeaderElection";
+import { Task } from "../core/task/Task";
+import { TaskJournal } from "../core/task/TaskJournal";
+import type { TaskStatus } from "../core/types/TaskRecord";
+import type { OracleError } from "../util/errors";
+import { logger } from "../util/monitoring";
+import { notLeaderResponse } from "../util/http";
+
+const REPLAYABLE_STATUSES: TaskStatus[] = ["failed", "dead_lettered", "aborted"];
+
+/**
+ * Runs failed tasks again in the background, each with a fresh set of attempts.
+ * Tasks that already had fully signed data re-submit it instead of starting over.
+ */
+const adminTaskReplay = async (req: Request) => {
+  const leaderElection = LeaderElection.getInstance();
+  if (leaderElection.enabled && !leaderElection.isLeader()) {
+    return notLeaderResponse(leaderElection.currentLeader(), "Tasks can only be replayed on the leader");
+  }
+
+  const body = await req.json() as { ids?: unknown };
+  if (!Array.isArray(body.ids) || !body.ids.every((id) => typeof id === "string")) {
+    return new Response(JSON.stringify({ error: "bad_input", context: "Expected a list of task ids" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const journal = TaskJournal.getInstance();
+  const results = (body.ids as string[]).map((id) => {
+    const record = journal.get(id);
+    if (!record) {
+      return { id, error: "bad_input", context: `Task ${id} not found` };
+    }
+
+    if (!REPLAYABLE_STATUSES.includes(record.status)) {
+      return { id, error: "bad_input", context: `Task ${id} is ${record.status}` };
+    }
+
+    const task = Result.fromThrowable(
+      () => new Task(record.pluginId, record.input, record.id),
+      (error): OracleError => ({ type: 'plugin_error', context: `Failed to create task: ${error}` })
+    )();
+    if (task.isErr()) {
+      return { id, error: task.error.type, context: task.error.context };
+    }
+
+    // Right after the status check and before anything is awaited, so a concurrent replay sees the task running
+    journal.resetAttempts(id);
+    const replay = record.phase === "execute" && record.validatedData
+      ? task.value.resumeExecution(record.validatedData)
+      : task.value.run();
+    replay.catch((error) => {
+      logger.error(`Unhandled error in replayed task ${id}`, { error });
+    });
+
+    logger.info(`Replaying task ${id} for plugin ${record.pluginId}`);
+    return { id, status: "replaying" };
+  });
+
+  return new Response(JSON.stringify(results), {
+    status: 202,
+    headers: { "Content-Type": "application/json" }
+  });
+};
+
+export default adminTaskReplay;
@@ -1,12 +1,14 @@
-import { Result } from "neverthrow";
+import type { Result } from "neverthrow";
 import config from "../config";
-import { Task } from "../core/task/Task";
+import { TaskBatcher } from "../core/task/TaskBatcher";
+import { LeaderElection } from "../core/leader/LeaderElection";
 import { SolanaBalanceUpdater } from "../plugins/SolanaBalanceUpdater";
 import { logger } from "../util/monitoring";
 import type { OracleError } from "../util/errors";
 import cache from "../core/cache";
 import type { AssetInfo } from "../core/types/abstraction-chain/contract-info";
 import { createClient } from "postchain-client";
+import { notLeaderResponse } from "../util/http";
 
 type RawTokenAmount = {
   decimals: number;
@@ -54,6 +56,12 @@ const heliusWebhook = async (req: Request) => {
     return new Response("Unauthorized", { status: 401 });
   }
 
+  // Peers only take part in tasks coordinated by the leader
+  const leaderElection = LeaderElection.getInstance();
+  if (leaderElection.enabled && !leaderElection.isLeader()) {
+    return notLeaderResponse(leaderElection.currentLeader());
+  }
+
   const trackedTokenMints = await getCachedTokenMints();
   const trackedMintAddresses = trackedTokenMints.map(mint => mint.id.toLowerCase());
 
@@ -66,6 +74,8 @@ const heliusWebhook = async (req: Request) => {
 
   logger.info(`Found ${tokenTransfers.length} token transfers`, { tokenTransfers });
 
+  // Submitted together, so that batching can merge the updates into a single transaction
+  const submissions: Promise<Result<unknown, OracleError>>[] = [];
   for (const tokenTransfer of tokenTransfers) {
     const cacheKey = `solana_balance_updater_${tokenTransfer.userAccount}`;
     const cachedResult = await cache.get(cacheKey);
@@ -76,33 +86,20 @@ const heliusWebhook = async (req: Request) => {
 
     await cache.set(cacheKey, true);
 
-    const task = Result.fromThrowable(
-      () => new Task(SolanaBalanceUpdater.pluginId, {
-        tokenMint: tokenTransfer.mint,
-        userAccount: tokenTransfer.userAccount,
-        decimals: tokenTransfer.rawTokenAmount.decimals
-      }),
-      (error): OracleError => ({
-        type: 'plugin_error',
-        context: `Failed to create task: ${error}`
-      })
-    )();
-    if (task.isErr()) {
-      logger.error(`Failed to create task`, { error: task.error });
-      return new Response(JSON.stringify({ error: task.error.type, context: task.error.context }), {
-        status: 500,
-        headers: { "Content-Type": "application/json" }
-      });
-    }
+    submissions.push(TaskBatcher.getInstance().submit(SolanaBalanceUpdater.pluginId, {
+      tokenMint: tokenTransfer.mint,
+      userAccount: tokenTransfer.userAccount,
+      decimals: tokenTransfer.rawTokenAmount.decimals
+    }, "bulk"));
+  }
 
-    const result = await task.value.start();
-    if (result.isErr()) {
-      logger.error(`Failed to start task`, { error: result.error });
-      return new Response(JSON.stringify({ error: result.error.type, context: result.error.context }), {
-        status: 500,
-        headers: { "Content-Type": "application/json" }
-      });
-    }
+  const failed = (await Promise.all(submissions)).find((result) => result.isErr());
+  if (failed?.isErr()) {
+    logger.error(`Failed to start task`, { error: failed.error });
+    return new Response(JSON.stringify({ error: failed.error.type, context: failed.error.context }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
   }
 
   return new Response("OK");
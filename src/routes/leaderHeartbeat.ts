@@ -0,0 +1,29 @@
+import config from "../config";
+import { LeaderElection } from "../core/leader/LeaderElection";
+import type { HeartbeatRequest, HeartbeatResponse } from "../core/types/requests/HeartbeatRequest";
+import { decodePeerRequest, peerRequestErrorStatus } from "../util/http";
+
+const leaderHeartbeat = async (req: Request) => {
+  // Only candidates send heartbeats, and they are the peers allowed to coordinate
+  const request = await decodePeerRequest<HeartbeatRequest>(req);
+  if (request.isErr()) {
+    return new Response(JSON.stringify({ error: request.error.type, context: request.error.context }), {
+      status: peerRequestErrorStatus(request.error),
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const leaderElection = LeaderElection.getInstance();
+  leaderElection.recordHeartbeat(request.value.sender);
+
+  const response: HeartbeatResponse = {
+    oracleId: config.id,
+    leader: leaderElection.currentLeader()
+  };
+
+  return new Response(JSON.stringify(response), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+export default leaderHeartbeat;
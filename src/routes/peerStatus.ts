@@ -0,0 +1,10 @@
+import { PeerHealthTracker } from "../core/peer/PeerHealthTracker";
+
+const peerStatus = async () => {
+  return new Response(JSON.stringify(PeerHealthTracker.getInstance().list()), {
+    status: 200,
+    headers: { "Content-Type": "application/json" }
+  });
+};
+
+export default peerStatus;
@@ -0,0 +1,149 @@
+import config from "../config";
+import { Task } from "../core/task/Task";
+import { TaskJournal } from "../core/task/TaskJournal";
+import { LeaderElection } from "../core/leader/LeaderElection";
+import { PluginRegistry } from "../core/plugin/PluginRegistry";
+import type { TaskCreationRequest } from "../core/types/requests/TaskCreationRequest";
+import type { BulkTaskResult } from "../core/types/requests/BulkTaskResult";
+import { logger } from "../util/monitoring";
+import { toReadableJson } from "../util/json";
+import { notLeaderResponse } from "../util/http";
+
+// Requests that run as one task, more than one when their inputs were merged
+type TaskUnit = {
+  pluginId: string;
+  input: unknown;
+  indexes: number[];
+};
+
+type UnitOutcome = Pick<BulkTaskResult, "id" | "result" | "error">;
+
+/**
+ * Runs many task requests with bounded concurrency. Requests to a plugin that can merge
+ * inputs are combined, so they end up in a single transaction. When a merged task does not
+ * complete, its requests are run one by one, so a single bad request only fails itself.
+ */
+const taskBulkCreate = async (req: Request) => {
+  const leaderElection = LeaderElection.getInstance();
+  if (leaderElection.enabled && !leaderElection.isLeader()) {
+    return notLeaderResponse(leaderElection.currentLeader());
+  }
+
+  const body = await req.json() as TaskCreationRequest[];
+  if (!Array.isArray(body) || body.length === 0 || body.length > config.bulkTasks.maxRequests) {
+    return new Response(JSON.stringify({ error: "bad_input", context: `Expected an array of 1 to ${config.bulkTasks.maxRequests} task requests` }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const results: BulkTaskResult[] = body.map((_, index) => ({ index, id: null, mergedWith: [] }));
+  await runWithConcurrency(toUnits(body), config.bulkTasks.concurrency, async (unit) => {
+    const outcome = await runUnit(unit);
+    if (unit.indexes.length > 1 && !completed(outcome)) {
+      await Promise.all(unit.indexes.map(async (index) => {
+        const single = await runUnit({ pluginId: unit.pluginId, input: body[index]!.input, indexes: [index] });
+        results[index] = { index, mergedWith: [], ...single };
+      }));
+      // Its items were run one by one, replaying the merged task would run them again
+      if (outcome.id) {
+        TaskJournal.getInstance().discard(outcome.id);
+      }
+      return;
+    }
+
+    for (const index of unit.indexes) {
+      results[index] = {
+        index,
+        mergedWith: unit.indexes.filter((other) => other !== index),
+        ...outcome
+      };
+    }
+  });
+
+  return new Response(toReadableJson(results), {
+    status: 200,
+    headers: { "Content-Type": "application/json" }
+  });
+};
+
+/**
+ * Groups the requests of each plugin supporting it into merged units of at most `maxMergeSize` requests
+ */
+const toUnits = (requests: TaskCreationRequest[]): TaskUnit[] => {
+  const units: TaskUnit[] = [];
+  const mergeable = new Map<string, number[]>();
+
+  for (const [index, request] of requests.entries()) {
+    const pluginId = String(request?.pluginId);
+    const plugin = PluginRegistry.getInstance().get(pluginId);
+    if (!plugin?.mergeInputs) {
+      units.push({ pluginId, input: request?.input, indexes: [index] });
+      continue;
+    }
+
+    const indexes = mergeable.get(plugin.metadata.id) ?? [];
+    indexes.push(index);
+    mergeable.set(plugin.metadata.id, indexes);
+  }
+
+  for (const [pluginId, indexes] of mergeable) {
+    for (let i = 0; i < indexes.length; i += config.bulkTasks.maxMergeSize) {
+      const chunk = indexes.slice(i, i + config.bulkTasks.maxMergeSize);
+      const merged = chunk.length > 1 ? mergeInputs(pluginId, chunk.map((index) => requests[index]!.input)) : null;
+      if (merged !== null) {
+        units.push({ pluginId, input: merged, indexes: chunk });
+      } else {
+        units.push(...chunk.map((index) => ({ pluginId, input: requests[index]!.input, indexes: [index] })));
+      }
+    }
+  }
+
+  return units;
+}
+
+// Inputs the plugin throws on are run one by one instead
+const mergeInputs = (pluginId: string, inputs: unknown[]): unknown | null => {
+  try {
+    return PluginRegistry.getInstance().get(pluginId)!.mergeInputs!(inputs);
+  } catch (error) {
+    logger.warn(`Plugin ${pluginId} failed to merge ${inputs.length} requests, running them one by one`, { error });
+    return null;
+  }
+}
+
+// A plugin throwing while the task is created or run fails only the requests of that unit
+const runUnit = async (unit: TaskUnit): Promise<UnitOutcome> => {
+  let task: Task<unknown>;
+  try {
+    task = new Task(unit.pluginId, unit.input);
+  } catch (error) {
+    return { id: null, error: { type: "plugin_error", context: `Failed to create task: ${error}` } };
+  }
+
+  try {
+    const result = await task.run();
+    return result.isOk()
+      ? { id: task.id, result: result.value }
+      : { id: task.id, error: result.error };
+  } catch (error) {
+    logger.error(`Task ${task.id} for plugin ${unit.pluginId} threw`, { error });
+    return { id: task.id, error: { type: "plugin_error", context: `Task failed: ${error}` } };
+  }
+}
+
+const completed = (outcome: UnitOutcome): boolean => {
+  return !outcome.error && outcome.id !== null && TaskJournal.getInstance().isCompleted(outcome.id);
+}
+
+const runWithConcurrency = async <T>(items: T[], concurrency: number, fn: (item: T) => Promise<void>) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await fn(items[next++]!);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+}
+
+export default taskBulkCreate;
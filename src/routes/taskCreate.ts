@@ -1,9 +1,21 @@
-import { Result } from "neverthrow";
+import { ok, Result } from "neverthrow";
 import { Task } from "../core/task/Task";
+import { LeaderElection } from "../core/leader/LeaderElection";
 import type { TaskCreationRequest } from "../core/types/requests/TaskCreationRequest";
 import type { OracleError } from "../util/errors";
+import { logger } from "../util/monitoring";
+import { TaskJournal } from "../core/task/TaskJournal";
+import { claimIdempotencyKey, resolveIdempotencyKey } from "../core/task/idempotency";
+import type { IdempotencyClaim } from "../core/types/TaskRecord";
+import { toReadableJson } from "../util/json";
+import { notLeaderResponse } from "../util/http";
 
 const taskCreate = async (req: Request) => {
+  const leaderElection = LeaderElection.getInstance();
+  if (leaderElection.enabled && !leaderElection.isLeader()) {
+    return notLeaderResponse(leaderElection.currentLeader());
+  }
+
   const body = await req.json() as TaskCreationRequest;
   const task = Result.fromThrowable(
     () => new Task(body.pluginId, body.input),
@@ -19,7 +31,41 @@ const taskCreate = async (req: Request) => {
     });
   }
 
-  const result = await task.value.start();
+  const idempotency = resolveIdempotencyKey(req, body.pluginId, body.input);
+  if (idempotency.isErr()) {
+    return new Response(JSON.stringify({ error: idempotency.error.type, context: idempotency.error.context }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  if (idempotency.value) {
+    const claim = claimIdempotencyKey(idempotency.value, task.value.id);
+    if (claim.isErr()) {
+      return new Response(JSON.stringify({ error: claim.error.type, context: claim.error.context }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    if (claim.value) {
+      return replayTask(claim.value, idempotency.value.requestHash);
+    }
+  }
+
+  const isAsync = body.async === true || new URL(req.url).searchParams.get("async") === "true";
+  if (isAsync) {
+    const taskId = task.value.id;
+    task.value.run("interactive").catch((error) => {
+      logger.error(`Unhandled error in async task ${taskId}`, { error });
+    });
+
+    return new Response(JSON.stringify({ id: taskId }), {
+      status: 202,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const result = await task.value.run("interactive");
   if (result.isErr()) {
     return new Response(JSON.stringify({ error: result.error.type, context: result.error.context }), {
       status: 500,
@@ -33,4 +79,37 @@ const taskCreate = async (req: Request) => {
   });
 };
 
+/**
+ * Answers a repeated request with the state of the task its idempotency key was first used for
+ */
+const replayTask = (claim: IdempotencyClaim, requestHash: string) => {
+  const headers = { "Content-Type": "application/json", "Idempotent-Replayed": "true" };
+  if (claim.requestHash !== requestHash) {
+    return new Response(JSON.stringify({ error: "bad_input", context: `Idempotency key was already used for a different request (task ${claim.taskId})` }), {
+      status: 422,
+      headers
+    });
+  }
+
+  const record = TaskJournal.getInstance().get(claim.taskId);
+  if (!record || record.status === "queued" || record.status === "running" || record.status === "retrying") {
+    return new Response(JSON.stringify({ id: claim.taskId, status: record?.status ?? "running" }), {
+      status: 202,
+      headers
+    });
+  }
+
+  if (record.status === "completed" || record.status === "skipped") {
+    return new Response(toReadableJson({ id: record.id, result: ok(record.result) }), {
+      status: 200,
+      headers
+    });
+  }
+
+  return new Response(JSON.stringify({ id: record.id, error: record.error?.type, context: record.error?.context }), {
+    status: 500,
+    headers
+  });
+};
+
 export default taskCreate;
\ No newline at end of file
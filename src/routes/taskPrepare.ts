@@ -1,12 +1,27 @@
 import config from "../config";
 import { PluginRegistry } from "../core/plugin/PluginRegistry";
 import type { PrepareRequest, PrepareResponse } from "../core/types/requests/PrepareRequest";
-import { signData } from "../util/crypto";
+import { signPreparedData } from "../util/prepared-data";
 import { encode } from "../util/encoder";
-import { decodeRequest } from "../util/http";
+import { decodePeerRequest, peerRequestErrorStatus } from "../util/http";
+import { checkVersions, localVersions } from "../util/version";
+import { LeaderElection } from "../core/leader/LeaderElection";
 
 const taskPrepare = async (req: Request) => {
-  const body = await decodeRequest(req) as PrepareRequest<unknown>;
+  const request = await decodePeerRequest<PrepareRequest<unknown>>(req);
+  if (request.isErr()) {
+    return new Response(JSON.stringify({ error: request.error.type, context: request.error.context }), {
+      status: peerRequestErrorStatus(request.error),
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  if (!LeaderElection.getInstance().acceptsCoordinationFrom(request.value.sender)) {
+    return new Response(JSON.stringify({ error: "unauthorized", context: `${request.value.sender} is not the leader` }), {
+      status: 409,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  const body = request.value.payload;
 
   const plugin = PluginRegistry.getInstance().get(body.pluginId);
   if (!plugin) {
@@ -16,6 +31,15 @@ const taskPrepare = async (req: Request) => {
     });
   }
 
+  const versions = localVersions(plugin.metadata.version);
+  const versionResult = checkVersions(plugin.metadata.id, versions, body);
+  if (versionResult.isErr()) {
+    return new Response(JSON.stringify({ error: versionResult.error.type, context: versionResult.error.context, ...versions }), {
+      status: 409,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
   const result = await plugin.prepare(body.input);
   if (result.isErr()) {
     return new Response(JSON.stringify({ error: result.error.type, context: result.error.context }), {
@@ -24,10 +48,13 @@ const taskPrepare = async (req: Request) => {
     });
   }
   const encodedData = encode(result.value);
+  const expiresAt = Date.now() + config.preparedDataTtlMs;
 
   const response: PrepareResponse = {
     encodedData: encodedData.toString('hex'),
-    signature: signData(encodedData, config.privateKey)
+    signature: signPreparedData({ pluginId: body.pluginId, taskId: body.taskId, oracleId: config.id, expiresAt }, result.value),
+    expiresAt,
+    ...versions
   };
 
   return new Response(JSON.stringify(response), {
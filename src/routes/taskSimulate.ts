@@ -0,0 +1,48 @@
+import { Result } from "neverthrow";
+import { Task } from "../core/task/Task";
+import { LeaderElection } from "../core/leader/LeaderElection";
+import type { TaskSimulationRequest } from "../core/types/requests/TaskSimulationRequest";
+import type { OracleError } from "../util/errors";
+import { toReadableJson } from "../util/json";
+import { notLeaderResponse } from "../util/http";
+
+/**
+ * Runs a task against the peers without executing it and returns the transaction it would submit
+ */
+const taskSimulate = async (req: Request) => {
+  // Peers only prepare and sign for the leader
+  const leaderElection = LeaderElection.getInstance();
+  if (leaderElection.enabled && !leaderElection.isLeader()) {
+    return notLeaderResponse(leaderElection.currentLeader());
+  }
+
+  const body = await req.json() as TaskSimulationRequest;
+  const task = Result.fromThrowable(
+    () => new Task(body.pluginId, body.input),
+    (error): OracleError => ({
+      type: 'plugin_error',
+      context: `Failed to create task: ${error}`
+    })
+  )();
+  if (task.isErr()) {
+    return new Response(JSON.stringify({ error: task.error.type, context: task.error.context }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const simulation = await task.value.simulate();
+  if (simulation.isErr()) {
+    return new Response(JSON.stringify({ error: simulation.error.type, context: simulation.error.context }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(toReadableJson(simulation.value), {
+    status: 200,
+    headers: { "Content-Type": "application/json" }
+  });
+};
+
+export default taskSimulate;
@@ -0,0 +1,32 @@
+import { TaskJournal } from "../core/task/TaskJournal";
+import { toReadableJson } from "../util/json";
+
+const taskStatus = async (id: string) => {
+  const record = TaskJournal.getInstance().get(id);
+  if (!record) {
+    return new Response(JSON.stringify({ error: `Task ${id} not found` }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(toReadableJson({
+    id: record.id,
+    pluginId: record.pluginId,
+    phase: record.phase,
+    status: record.status,
+    error: record.error,
+    result: record.result,
+    txRid: record.txRid,
+    attempts: record.attempts,
+    nextAttemptAt: record.nextAttemptAt,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    finishedAt: record.finishedAt
+  }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" }
+  });
+};
+
+export default taskStatus;
@@ -1,15 +1,38 @@
 import type { ValidateRequest, ValidateResponse } from "../core/types/requests/ValidateRequest";
 import { PluginRegistry } from "../core/plugin/PluginRegistry";
 import { encode } from "../util/encoder";
-import { decodeRequest } from "../util/http";
-import { verifySignature } from "../util/crypto";
+import { decodePeerRequest, peerRequestErrorStatus } from "../util/http";
+import { LeaderElection } from "../core/leader/LeaderElection";
+import { verifyPreparedData } from "../util/prepared-data";
 import config from "../config";
+import { isGtx } from "../util/gtx";
+import { checkSigningPolicy } from "../core/validation/signing-policy";
+import { ok } from "neverthrow";
+import { createTaskContext } from "../core/task/nonce";
 
 const taskValidate = async (req: Request) => {
-  const body = await decodeRequest(req) as ValidateRequest;
+  const request = await decodePeerRequest<ValidateRequest>(req);
+  if (request.isErr()) {
+    return new Response(JSON.stringify({ error: request.error.type, context: request.error.context }), {
+      status: peerRequestErrorStatus(request.error),
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  if (!LeaderElection.getInstance().acceptsCoordinationFrom(request.value.sender)) {
+    return new Response(JSON.stringify({ error: "unauthorized", context: `${request.value.sender} is not the leader` }), {
+      status: 409,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  const body = request.value.payload;
 
-  if (!verifySignature(encode(body.preparedData), body.signature, config.publicKey)) {
-    return new Response(JSON.stringify({ error: "Invalid signature" }), {
+  const signatureResult = verifyPreparedData(
+    { pluginId: body.pluginId, taskId: body.taskId, oracleId: config.id, expiresAt: body.expiresAt },
+    body.preparedData,
+    body.signature
+  );
+  if (signatureResult.isErr()) {
+    return new Response(JSON.stringify({ error: signatureResult.error.type, context: signatureResult.error.context }), {
       status: 400,
       headers: { "Content-Type": "application/json" }
     });
@@ -23,7 +46,17 @@ const taskValidate = async (req: Request) => {
     });
   }
 
-  const result = await plugin.validate(body.input, body.preparedData);
+  // Checked before the plugin gets to see the transaction, so a disallowed operation is never signed
+  const policyResult = isGtx(body.input) ? checkSigningPolicy(plugin.metadata, body.input) : ok();
+  if (policyResult.isErr()) {
+    return new Response(JSON.stringify({ error: policyResult.error.type, context: policyResult.error.context }), {
+      status: 403,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const context = createTaskContext(plugin, body.taskId, body.preparedData);
+  const result = await plugin.validate(body.input, body.preparedData, context);
   if (result.isErr()) {
     return new Response(JSON.stringify({ error: result.error.type, context: result.error.context }), {
       status: 500,
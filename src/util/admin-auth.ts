@@ -0,0 +1,22 @@
+import { timingSafeEqual } from "crypto";
+import { err, ok, type Result } from "neverthrow";
+import config from "../config";
+import type { OracleError } from "./errors";
+
+/**
+ * Checks the `Authorization: Bearer <adminApiKey>` header of an admin API request
+ */
+export const authorizeAdmin = (req: Request): Result<void, OracleError> => {
+  if (!config.adminApiKey) {
+    return err({ type: "unauthorized", context: "Admin API is disabled" });
+  }
+
+  const header = req.headers.get("Authorization") ?? "";
+  const token = Buffer.from(header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "");
+  const expected = Buffer.from(config.adminApiKey);
+  if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+    return err({ type: "unauthorized", context: "Invalid admin API key" });
+  }
+
+  return ok();
+}
@@ -1,3 +1,4 @@
 export const MERKLE_HASH_VERSION = 0;
 export const SOLANA_THROTTLE_LIMIT = 1;
-export const EVM_THROTTLE_LIMIT = 3;
\ No newline at end of file
+export const EVM_THROTTLE_LIMIT = 3;
+export const PROTOCOL_VERSION = 2;
\ No newline at end of file
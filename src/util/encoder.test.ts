@@ -0,0 +1,128 @@
+import { describe, expect, test } from "bun:test";
+import { decode, DEFAULT_ENCODER_LIMITS, encode, type EncoderLimits } from "./encoder";
+
+const roundTrip = (data: unknown, limits?: EncoderLimits) => decode(encode(data, limits), limits)._unsafeUnwrap();
+
+// `levels` arrays nested in each other, the innermost one empty
+const nested = (levels: number): unknown[] => {
+  let value: unknown[] = [];
+  for (let i = 1; i < levels; i++) value = [value];
+  return value;
+};
+
+const decodeError = (buffer: Buffer, limits?: EncoderLimits) => {
+  const result = decode(buffer, limits);
+  expect(result.isErr()).toBe(true);
+  return result._unsafeUnwrapErr();
+};
+
+describe("encode and decode", () => {
+  test("round-trips numbers that do not survive a text encoding", () => {
+    expect(Object.is(roundTrip(-0), -0)).toBe(true);
+    expect(roundTrip(NaN)).toBeNaN();
+    expect(roundTrip(Infinity)).toBe(Infinity);
+    expect(roundTrip(0.1 + 0.2)).toBe(0.1 + 0.2);
+  });
+
+  test("round-trips maps and sets with nested values", () => {
+    const map = new Map<unknown, unknown>([["a", 1n], [2, { b: [true, null] }]]);
+    const set = new Set<unknown>(["x", 3, new Date(0)]);
+
+    expect(roundTrip(map)).toEqual(map);
+    expect(roundTrip(set)).toEqual(set);
+  });
+
+  test("encodes equal maps and sets the same regardless of insertion order", () => {
+    expect(encode(new Map([["a", 1], ["b", 2]]))).toEqual(encode(new Map([["b", 2], ["a", 1]])));
+    expect(encode(new Set([1, 2, 3]))).toEqual(encode(new Set([3, 1, 2])));
+  });
+
+  test("round-trips every typed array kind", () => {
+    const arrays = [
+      new Uint8Array([0, 255]), new Int8Array([-128, 127]), new Uint8ClampedArray([0, 255]),
+      new Int16Array([-32768, 32767]), new Uint16Array([0, 65535]), new Int32Array([-1, 2 ** 31 - 1]),
+      new Uint32Array([0, 2 ** 32 - 1]), new Float32Array([1.5, -0]), new Float64Array([NaN, Math.PI]),
+      new BigInt64Array([-(2n ** 63n), 1n]), new BigUint64Array([0n, 2n ** 64n - 1n])
+    ];
+
+    // Compared byte for byte, so NaN and -0 elements count as well
+    const bytes = (array: ArrayBufferView) => Buffer.from(array.buffer, array.byteOffset, array.byteLength);
+    for (const array of arrays) {
+      const decoded = roundTrip(array) as ArrayBufferView;
+      expect(decoded).toBeInstanceOf(array.constructor);
+      expect(bytes(decoded)).toEqual(bytes(array));
+    }
+  });
+
+  test("round-trips a typed array viewing part of a larger buffer", () => {
+    const view = new Uint16Array(new Uint16Array([1, 2, 3, 4]).buffer, 2, 2);
+    expect(roundTrip(view)).toEqual(new Uint16Array([2, 3]));
+  });
+});
+
+describe("decode of malformed input", () => {
+  test("rejects a truncated container length", () => {
+    const encoded = encode([1, 2]);
+    expect(decodeError(encoded.subarray(0, 4)).type).toBe("decode_error");
+  });
+
+  test("rejects a truncated entry", () => {
+    const encoded = encode(["abc"]);
+    expect(decodeError(encoded.subarray(0, encoded.length - 1)).type).toBe("decode_error");
+  });
+
+  test("rejects a container claiming more entries than it has bytes for", () => {
+    const encoded = Buffer.from(encode([1]));
+    // Version byte, then the array marker, then the entry count
+    encoded.writeUInt32BE(0xffffffff, 2);
+    expect(decodeError(encoded).context).toContain("claims");
+  });
+
+  test("rejects an entry size past the end of the payload", () => {
+    const encoded = Buffer.from(encode(["abc"]));
+    encoded.writeUInt32BE(1_000_000, 6);
+    expect(decodeError(encoded).context).toContain("claims 1000000 bytes");
+  });
+
+  test("rejects trailing bytes after a container", () => {
+    expect(decodeError(Buffer.concat([encode([1]), Buffer.from([0])])).type).toBe("decode_error");
+  });
+
+  test("rejects a typed array whose length is not a multiple of its element size", () => {
+    const encoded = encode(new Uint32Array([1]));
+    expect(decodeError(encoded.subarray(0, encoded.length - 1)).type).toBe("decode_error");
+  });
+
+  test("rejects a payload larger than the size limit", () => {
+    const limits = { ...DEFAULT_ENCODER_LIMITS, maxBytes: 16 };
+    expect(decodeError(encode("a".repeat(32)), limits).context).toContain("exceeds the limit");
+  });
+});
+
+describe("limits", () => {
+  test("encodes and decodes containers nested up to the depth limit", () => {
+    const value = nested(DEFAULT_ENCODER_LIMITS.maxDepth);
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  test("refuses to encode an empty container one level past the depth limit, which would not decode", () => {
+    const value = nested(DEFAULT_ENCODER_LIMITS.maxDepth + 1);
+    expect(() => encode(value)).toThrow("nested deeper");
+
+    const deeper = { ...DEFAULT_ENCODER_LIMITS, maxDepth: DEFAULT_ENCODER_LIMITS.maxDepth + 1 };
+    expect(decodeError(encode(value, deeper)).context).toContain("nested deeper");
+  });
+
+  test("refuses to encode circular references", () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    expect(() => encode(circular)).toThrow("nested deeper");
+  });
+
+  test("rejects payloads with more values than the element limit", () => {
+    const limits = { ...DEFAULT_ENCODER_LIMITS, maxElements: 4 };
+    // The array counts as a value as well
+    expect(roundTrip([1, 2, 3], limits)).toEqual([1, 2, 3]);
+    expect(decodeError(encode([1, 2, 3, 4]), limits).context).toContain("more than 4 values");
+  });
+});
@@ -1,206 +1,336 @@
 /**
  * Buffer utility functions for encoding and decoding different data types
  */
+import { err, ok, type Result } from "neverthrow";
+import type { OracleError } from "./errors";
+
+/**
+ * First byte of every encoded payload, identifies the wire format version.
+ * Payloads without it are decoded as the original headerless format.
+ */
+export const ENCODING_VERSION = 0xe1;
+
+export type EncoderLimits = {
+  /** Maximum size of an encoded payload */
+  maxBytes: number;
+  /** Maximum nesting of arrays, objects, maps and sets */
+  maxDepth: number;
+  /** Maximum number of values in a payload, counting nested ones */
+  maxElements: number;
+};
+
+export const DEFAULT_ENCODER_LIMITS: EncoderLimits = {
+  maxBytes: 32 * 1024 * 1024,
+  maxDepth: 64,
+  maxElements: 1_000_000,
+};
+
+const enum Marker {
+  Null = 0,
+  String = 1,
+  Number = 2,
+  Boolean = 3,
+  BigInt = 4,
+  Buffer = 5,
+  Date = 6,
+  Array = 7,
+  Object = 8,
+  TypedArray = 9,
+  Map = 10,
+  Set = 11,
+}
+
+// Index in this list is the subtype byte of an encoded typed array, element bytes are little-endian
+const TYPED_ARRAYS = [
+  Uint8Array, Int8Array, Uint8ClampedArray, Int16Array, Uint16Array, Int32Array, Uint32Array,
+  Float32Array, Float64Array, BigInt64Array, BigUint64Array
+] as const;
+
+type TypedArray = InstanceType<typeof TYPED_ARRAYS[number]>;
 
 /**
  * Encodes any data into a Buffer
  * @param data Any data to encode (including objects with bigint)
  * @returns Buffer representation of the data
+ * @throws On unsupported types (e.g. functions) or nesting deeper than the limit, e.g. for circular references
  */
-export function encode(data: unknown): Buffer {
-  return _encode(data);
+export function encode(data: unknown, limits: EncoderLimits = DEFAULT_ENCODER_LIMITS): Buffer {
+  return Buffer.concat([Buffer.from([ENCODING_VERSION]), _encode(data, limits, 0)]);
 }
 
-function _encode(data: unknown): Buffer {
+function _encode(data: unknown, limits: EncoderLimits, depth: number): Buffer {
   // Handle null or undefined
   if (data === null || data === undefined) {
-    return Buffer.from([0]); // Special marker for null/undefined
+    return Buffer.from([Marker.Null]); // Special marker for null/undefined
   }
 
-  // If it's already a Buffer, just return it to prevent double encoding
   if (Buffer.isBuffer(data)) {
-    const typeMarker = Buffer.from([5]); // Buffer type marker
-    return Buffer.concat([typeMarker, data]);
+    return Buffer.concat([Buffer.from([Marker.Buffer]), data]);
+  }
+
+  if (ArrayBuffer.isView(data) && !(data instanceof DataView)) {
+    const kind = TYPED_ARRAYS.findIndex((type) => data.constructor === type);
+    if (kind === -1) {
+      throw new Error(`Unsupported typed array: ${data.constructor.name}`);
+    }
+    const bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    return Buffer.concat([Buffer.from([Marker.TypedArray, kind]), bytes]);
   }
 
   // Handle primitive types
   if (typeof data === 'string') {
-    const typeMarker = Buffer.from([1]); // String type marker
-    const contentBuffer = Buffer.from(data, 'utf-8');
-    return Buffer.concat([typeMarker, contentBuffer]);
+    return Buffer.concat([Buffer.from([Marker.String]), Buffer.from(data, 'utf-8')]);
   }
 
+  // Stored as a double, so -0, NaN and Infinity survive the round trip
   if (typeof data === 'number') {
-    const typeMarker = Buffer.from([2]); // Number type marker
-    const contentBuffer = Buffer.from(data.toString(), 'utf-8');
-    return Buffer.concat([typeMarker, contentBuffer]);
+    const content = Buffer.alloc(9);
+    content.writeUInt8(Marker.Number, 0);
+    content.writeDoubleBE(data, 1);
+    return content;
   }
 
   if (typeof data === 'boolean') {
-    const typeMarker = Buffer.from([3]); // Boolean type marker
-    const contentBuffer = Buffer.from(data ? '1' : '0', 'utf-8');
-    return Buffer.concat([typeMarker, contentBuffer]);
+    return Buffer.from([Marker.Boolean, data ? 1 : 0]);
   }
 
   if (typeof data === 'bigint') {
-    const typeMarker = Buffer.from([4]); // BigInt type marker
-    const contentBuffer = Buffer.from(data.toString(), 'utf-8');
-    return Buffer.concat([typeMarker, contentBuffer]);
+    return Buffer.concat([Buffer.from([Marker.BigInt]), Buffer.from(data.toString(), 'utf-8')]);
   }
 
-  // Handle Date
   if (data instanceof Date) {
-    const typeMarker = Buffer.from([6]); // Date type marker
-    const contentBuffer = Buffer.from(data.getTime().toString(), 'utf-8');
-    return Buffer.concat([typeMarker, contentBuffer]);
+    const content = Buffer.alloc(9);
+    content.writeUInt8(Marker.Date, 0);
+    content.writeDoubleBE(data.getTime(), 1);
+    return content;
   }
 
-  // Handle arrays
   if (Array.isArray(data)) {
-    const typeMarker = Buffer.from([7]); // Array type marker
-    
-    // Encode length as 4 bytes
-    const lengthBuffer = Buffer.alloc(4);
-    lengthBuffer.writeUInt32BE(data.length, 0);
-    
-    // Encode each element
-    const encodedElements = data.map(item => _encode(item));
-    
-    // Concatenate elements with their sizes
-    const elementsWithSizes: Buffer[] = [];
-    encodedElements.forEach(encodedElement => {
-      const sizeBuffer = Buffer.alloc(4);
-      sizeBuffer.writeUInt32BE(encodedElement.length, 0);
-      elementsWithSizes.push(sizeBuffer, encodedElement);
-    });
-    
-    return Buffer.concat([typeMarker, lengthBuffer, ...elementsWithSizes]);
+    checkDepth(limits, depth);
+    return encodeContainer(Marker.Array, data.map((item) => [_encode(item, limits, depth + 1)]));
+  }
+
+  // Entries and elements are sorted by their encoding, so equal maps and sets always encode the same
+  if (data instanceof Map) {
+    checkDepth(limits, depth);
+    const entries = [...data.entries()].map(([key, value]) => [_encode(key, limits, depth + 1), _encode(value, limits, depth + 1)]);
+    return encodeContainer(Marker.Map, entries.sort(([keyA], [keyB]) => Buffer.compare(keyA!, keyB!)));
+  }
+
+  if (data instanceof Set) {
+    checkDepth(limits, depth);
+    const elements = [...data.values()].map((value) => _encode(value, limits, depth + 1));
+    return encodeContainer(Marker.Set, elements.sort(Buffer.compare).map((element) => [element]));
   }
 
-  // Handle objects
   if (typeof data === 'object') {
-    const typeMarker = Buffer.from([8]); // Object type marker
-    
+    checkDepth(limits, depth);
     // Get all entries and sort them by key alphanumerically
     const entries = Object.entries(data as Record<string, unknown>)
-      .sort(([keyA], [keyB]) => keyA.localeCompare(keyB, undefined, { numeric: true }));
-    
-    // Encode length as 4 bytes
-    const lengthBuffer = Buffer.alloc(4);
-    lengthBuffer.writeUInt32BE(entries.length, 0);
-    
-    // Encode each key-value pair
-    const encodedPairs: Buffer[] = [];
-    for (const [key, value] of entries) {
-      const keyBuffer = _encode(key);
-      const valueBuffer = _encode(value);
-      
-      // Add size info for key and value
-      const keyLengthBuffer = Buffer.alloc(4);
-      keyLengthBuffer.writeUInt32BE(keyBuffer.length, 0);
-      
-      const valueLengthBuffer = Buffer.alloc(4);
-      valueLengthBuffer.writeUInt32BE(valueBuffer.length, 0);
-      
-      encodedPairs.push(keyLengthBuffer, keyBuffer, valueLengthBuffer, valueBuffer);
-    }
-    
-    return Buffer.concat([typeMarker, lengthBuffer, ...encodedPairs]);
+      .sort(([keyA], [keyB]) => keyA.localeCompare(keyB, undefined, { numeric: true }))
+      .map(([key, value]) => [_encode(key, limits, depth + 1), _encode(value, limits, depth + 1)]);
+    return encodeContainer(Marker.Object, entries);
   }
 
   // Fallback for unsupported types
   throw new Error(`Unsupported data type: ${typeof data}`);
 }
 
+// Same bound as the decoder applies, so anything that encodes also decodes
+function checkDepth(limits: EncoderLimits, depth: number) {
+  if (depth + 1 > limits.maxDepth) {
+    throw new Error(`Cannot encode data nested deeper than ${limits.maxDepth} levels`);
+  }
+}
+
 /**
- * Decodes a Buffer back to its original data format
+ * Count of entries followed by every part of every entry, each prefixed with its size
+ */
+function encodeContainer(marker: Marker, entries: Buffer[][]): Buffer {
+  const header = Buffer.alloc(5);
+  header.writeUInt8(marker, 0);
+  header.writeUInt32BE(entries.length, 1);
+
+  const parts: Buffer[] = [header];
+  for (const entry of entries) {
+    for (const part of entry) {
+      const sizeBuffer = Buffer.alloc(4);
+      sizeBuffer.writeUInt32BE(part.length, 0);
+      parts.push(sizeBuffer, part);
+    }
+  }
+
+  return Buffer.concat(parts);
+}
+
+type DecodeContext = {
+  limits: EncoderLimits;
+  /** Whether the payload uses the original headerless format */
+  legacy: boolean;
+  elements: number;
+};
+
+/**
+ * Decodes a Buffer back to its original data format. Never throws, malformed or oversized
+ * input results in a `decode_error`.
  * @param buffer The Buffer containing encoded data
  * @returns The decoded data
  */
-export function decode(buffer: Buffer | { type: 'Buffer', data: number[] }): unknown {  
+export function decode(
+  buffer: Buffer | { type: 'Buffer', data: number[] },
+  limits: EncoderLimits = DEFAULT_ENCODER_LIMITS
+): Result<unknown, OracleError> {
   // Convert buffer-like object to actual Buffer if needed
   const actualBuffer = Buffer.isBuffer(buffer) ? buffer : Buffer.from(buffer.data);
-  
-  if (actualBuffer.length === 0) {
-    throw new Error('Empty buffer cannot be decoded');
+
+  if (actualBuffer.length > limits.maxBytes) {
+    return decodeError(`Payload of ${actualBuffer.length} bytes exceeds the limit of ${limits.maxBytes}`);
   }
 
-  const typeMarker = actualBuffer[0];
-  const contentBuffer = actualBuffer.subarray(1);
+  const legacy = actualBuffer[0] !== ENCODING_VERSION;
+  const context: DecodeContext = { limits, legacy, elements: 0 };
+  return _decode(legacy ? actualBuffer : actualBuffer.subarray(1), context, 0);
+}
 
-  switch (typeMarker) {
-    case 0: // null or undefined
-      return null;
+function decodeError(context: string): Result<never, OracleError> {
+  return err({ type: 'decode_error', context });
+}
 
-    case 1: // string
-      return contentBuffer.toString('utf-8');
+function _decode(buffer: Buffer, context: DecodeContext, depth: number): Result<unknown, OracleError> {
+  if (buffer.length === 0) {
+    return decodeError('Empty buffer cannot be decoded');
+  }
 
-    case 2: // number
-      return Number(contentBuffer.toString('utf-8'));
+  if (++context.elements > context.limits.maxElements) {
+    return decodeError(`Payload contains more than ${context.limits.maxElements} values`);
+  }
 
-    case 3: // boolean
-      return contentBuffer.toString('utf-8') === '1';
+  const typeMarker = buffer[0];
+  const contentBuffer = buffer.subarray(1);
 
-    case 4: // bigint
-      return BigInt(contentBuffer.toString('utf-8'));
+  switch (typeMarker) {
+    case Marker.Null:
+      return ok(null);
 
-    case 5: // Buffer
-      return contentBuffer;
+    case Marker.String:
+      return ok(contentBuffer.toString('utf-8'));
 
-    case 6: // Date
-      return new Date(Number(contentBuffer.toString('utf-8')));
+    case Marker.Number:
+      if (context.legacy) return ok(Number(contentBuffer.toString('utf-8')));
+      if (contentBuffer.length !== 8) return decodeError(`Number must be 8 bytes, got ${contentBuffer.length}`);
+      return ok(contentBuffer.readDoubleBE(0));
 
-    case 7: { // Array
-      let offset = 0;
-      const length = contentBuffer.readUInt32BE(offset);
-      offset += 4;
+    case Marker.Boolean:
+      if (context.legacy) return ok(contentBuffer.toString('utf-8') === '1');
+      if (contentBuffer.length !== 1 || contentBuffer[0]! > 1) return decodeError('Malformed boolean');
+      return ok(contentBuffer[0] === 1);
 
-      const result = [];
-      for (let i = 0; i < length; i++) {
-        const elementSize = contentBuffer.readUInt32BE(offset);
-        offset += 4;
-        
-        const elementBuffer = contentBuffer.subarray(offset, offset + elementSize);
-        offset += elementSize;
-        
-        result.push(decode(elementBuffer));
-      }
-      
-      return result;
+    case Marker.BigInt: {
+      const digits = contentBuffer.toString('utf-8');
+      if (!/^-?\d+$/.test(digits)) return decodeError('Malformed bigint');
+      return ok(BigInt(digits));
     }
 
-    case 8: { // Object
-      let offset = 0;
-      const length = contentBuffer.readUInt32BE(offset);
+    case Marker.Buffer:
+      return ok(contentBuffer);
+
+    case Marker.Date:
+      if (context.legacy) return ok(new Date(Number(contentBuffer.toString('utf-8'))));
+      if (contentBuffer.length !== 8) return decodeError(`Date must be 8 bytes, got ${contentBuffer.length}`);
+      return ok(new Date(contentBuffer.readDoubleBE(0)));
+
+    case Marker.Array:
+      return decodeContainer(contentBuffer, 1, context, depth).map((entries) => entries.map(([value]) => value));
+
+    case Marker.Object:
+      return decodeContainer(contentBuffer, 2, context, depth).andThen((entries) => {
+        const result: Record<string, unknown> = {};
+        for (const [key, value] of entries) {
+          if (typeof key !== 'string') return decodeError('Object keys must be strings');
+          // Plain data never needs it, and assigning it would replace the prototype
+          if (key === '__proto__') return decodeError('Object key __proto__ is not allowed');
+          result[key] = value;
+        }
+        return ok(result);
+      });
+
+    case Marker.TypedArray:
+      if (context.legacy) break;
+      return decodeTypedArray(contentBuffer);
+
+    case Marker.Map:
+      if (context.legacy) break;
+      return decodeContainer(contentBuffer, 2, context, depth).map((entries) => new Map(entries.map(([key, value]) => [key, value])));
+
+    case Marker.Set:
+      if (context.legacy) break;
+      return decodeContainer(contentBuffer, 1, context, depth).map((entries) => new Set(entries.map(([value]) => value)));
+  }
+
+  return decodeError(`Unknown type marker: ${typeMarker}`);
+}
+
+/**
+ * Reads `count` entries of `parts` size-prefixed values each, checking every length against the remaining bytes
+ */
+function decodeContainer(buffer: Buffer, parts: number, context: DecodeContext, depth: number): Result<unknown[][], OracleError> {
+  if (depth + 1 > context.limits.maxDepth) {
+    return decodeError(`Payload is nested deeper than ${context.limits.maxDepth} levels`);
+  }
+
+  if (buffer.length < 4) {
+    return decodeError('Truncated container length');
+  }
+
+  const count = buffer.readUInt32BE(0);
+  // Every part takes at least a size prefix and a type marker
+  if (count * parts * 5 > buffer.length - 4) {
+    return decodeError(`Container claims ${count} entries but only has ${buffer.length - 4} bytes`);
+  }
+
+  let offset = 4;
+  const entries: unknown[][] = [];
+  for (let i = 0; i < count; i++) {
+    const entry: unknown[] = [];
+    for (let part = 0; part < parts; part++) {
+      if (offset + 4 > buffer.length) {
+        return decodeError(`Truncated size of entry ${i}`);
+      }
+      const size = buffer.readUInt32BE(offset);
       offset += 4;
 
-      const result: Record<string, unknown> = {};
-      for (let i = 0; i < length; i++) {
-        // Read key
-        const keySize = contentBuffer.readUInt32BE(offset);
-        offset += 4;
-        
-        const keyBuffer = contentBuffer.subarray(offset, offset + keySize);
-        offset += keySize;
-        
-        const key = decode(keyBuffer) as string;
-        
-        // Read value
-        const valueSize = contentBuffer.readUInt32BE(offset);
-        offset += 4;
-        
-        const valueBuffer = contentBuffer.subarray(offset, offset + valueSize);
-        offset += valueSize;
-        
-        const value = decode(valueBuffer);
-        
-        result[key] = value;
+      if (offset + size > buffer.length) {
+        return decodeError(`Entry ${i} claims ${size} bytes but only ${buffer.length - offset} remain`);
+      }
+      const value = _decode(buffer.subarray(offset, offset + size), context, depth + 1);
+      if (value.isErr()) {
+        return err(value.error);
       }
-      
-      return result;
+      offset += size;
+      entry.push(value.value);
     }
+    entries.push(entry);
+  }
+
+  if (offset !== buffer.length) {
+    return decodeError(`${buffer.length - offset} trailing bytes after container`);
+  }
+
+  return ok(entries);
+}
+
+function decodeTypedArray(buffer: Buffer): Result<TypedArray, OracleError> {
+  const type = TYPED_ARRAYS[buffer[0] ?? -1];
+  if (!type) {
+    return decodeError(`Unknown typed array kind: ${buffer[0]}`);
+  }
 
-    default:
-      throw new Error(`Unknown type marker: ${typeMarker}`);
+  const bytes = buffer.subarray(1);
+  if (bytes.length % type.BYTES_PER_ELEMENT !== 0) {
+    return decodeError(`${type.name} of ${bytes.length} bytes is not a multiple of ${type.BYTES_PER_ELEMENT}`);
   }
+
+  // Copied, so the typed array is aligned and does not share memory with the payload
+  const copy = new Uint8Array(bytes);
+  return ok(new type(copy.buffer, 0, bytes.length / type.BYTES_PER_ELEMENT));
 }
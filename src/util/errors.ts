@@ -8,6 +8,14 @@ export type OracleError =
   | { type: 'non_error'; context?: string }
   | { type: 'plugin_error'; context?: string }
   | { type: 'insufficient_peers'; context?: string }
+  | { type: 'consensus_error'; context?: string }
+  | { type: 'policy_violation'; context?: string }
+  | { type: 'unauthorized'; context?: string }
+  | { type: 'not_leader'; context?: string }
+  | { type: 'decode_error'; context?: string }
+  | { type: 'version_mismatch'; context?: string }
   | { type: 'timeout'; context?: string }
+  | { type: 'tx_too_large'; context?: string }
+  | { type: 'journal_error'; context?: string }
   | { type: 'unsupported_contract_type'; context?: string }
   | { type: 'throttle_error'; context?: string };
\ No newline at end of file
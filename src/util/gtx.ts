@@ -0,0 +1,81 @@
+import { getDigestToSignFromRawGtxBody, gtx, type GTX, type RawGtxBody } from "postchain-client";
+import { ecdsaSign, ecdsaVerify } from "secp256k1";
+
+export const isGtx = (data: unknown): data is GTX => {
+  return typeof data === "object"
+    && data !== null
+    && Buffer.isBuffer((data as GTX).blockchainRid)
+    && Array.isArray((data as GTX).operations)
+    && Array.isArray((data as GTX).signers);
+}
+
+/**
+ * The transaction RID Postchain will assign to this GTX
+ */
+export const getTxRid = (tx: GTX): string => {
+  return getGtxDigest(tx).toString('hex');
+}
+
+/**
+ * The digest every signer has to sign
+ */
+export const getGtxDigest = (tx: GTX): Buffer => {
+  const gtxBody = [tx.blockchainRid, tx.operations.map((op) => [op.opName, op.args]), tx.signers] as RawGtxBody;
+  return getDigestToSignFromRawGtxBody(gtxBody);
+}
+
+/**
+ * Size of the GTX once serialized with a signature from each of `signerCount` signers
+ */
+export const estimateGtxSize = (tx: GTX, signerCount: number = tx.signers.length): number => {
+  // Placeholders of a compressed public key and a compact signature
+  const signers = Array.from({ length: signerCount }, () => Buffer.alloc(33));
+  const signatures = Array.from({ length: signerCount }, () => Buffer.alloc(64));
+  return gtx.serialize({ blockchainRid: tx.blockchainRid, operations: tx.operations, signers, signatures }).length;
+}
+
+/**
+ * A copy of the GTX body without any collected signatures
+ */
+export const withoutSignatures = (tx: GTX): GTX => {
+  return {
+    blockchainRid: tx.blockchainRid,
+    operations: tx.operations,
+    signers: tx.signers,
+  };
+}
+
+export const verifyGtxSignature = (digest: Buffer, signature: Buffer, publicKey: Buffer): boolean => {
+  try {
+    return ecdsaVerify(signature, digest, publicKey);
+  } catch {
+    // Malformed signatures or keys are rejected by secp256k1 with an exception
+    return false;
+  }
+}
+
+/**
+ * Signers of the GTX whose signature is missing or does not verify against their public key over the GTX digest
+ */
+export const findInvalidSignatures = (tx: GTX): Buffer[] => {
+  const digest = getGtxDigest(tx);
+  return tx.signers.filter((signer, i) => {
+    const signature = tx.signatures?.[i];
+    return !signature || !verifyGtxSignature(digest, Buffer.from(signature), Buffer.from(signer));
+  });
+}
+
+/**
+ * Appends this node's signature over the GTX digest
+ */
+export const signGtx = (tx: GTX, privateKey: string): GTX => {
+  const signature = Buffer.from(ecdsaSign(getGtxDigest(tx), Buffer.from(privateKey, 'hex')).signature);
+
+  if (tx.signatures) {
+    tx.signatures.push(signature);
+  } else {
+    tx.signatures = [signature];
+  }
+
+  return tx;
+}
@@ -1,15 +1,41 @@
+import type { Result } from "neverthrow";
+import type { PeerEnvelope } from "../core/types/requests/PeerEnvelope";
 import { decode } from "./encoder";
+import type { OracleError } from "./errors";
+import { openEnvelope } from "./peer-auth";
 
 
-export const decodeResponse = async <T>(response: Response) => {
+export const decodeResponse = async <T>(response: Response): Promise<Result<T, OracleError>> => {
   const body = await response.arrayBuffer();
-  return decode(Buffer.from(body)) as T;
+  return decode(Buffer.from(body)) as Result<T, OracleError>;
 };
 
-export const decodeRequest = async (req: Request) => {
+export const decodeRequest = async (req: Request): Promise<Result<unknown, OracleError>> => {
   const body = await req.blob();
   const arrayBuffer = await body.arrayBuffer();
   const encodedResponse = Buffer.from(arrayBuffer);
   return decode(encodedResponse);
 };
 
+/**
+ * Decodes a request sent by another node and verifies its signed envelope
+ */
+export const decodePeerRequest = async <T>(req: Request): Promise<Result<PeerEnvelope<T>, OracleError>> => {
+  const decoded = await decodeRequest(req);
+  return decoded.andThen((envelope) => openEnvelope(new URL(req.url).pathname, envelope as PeerEnvelope<T>));
+};
+
+/**
+ * Status to answer a peer request with when decoding or authenticating it failed
+ */
+export const peerRequestErrorStatus = (error: OracleError): number => error.type === "decode_error" ? 400 : 401;
+
+/**
+ * Refuses a request only the leader handles, naming the node this node considers the leader
+ */
+export const notLeaderResponse = (leader: string | null, context = "This node is not the leader"): Response => {
+  return new Response(JSON.stringify({ error: "not_leader", context, leader }), {
+    status: 503,
+    headers: { "Content-Type": "application/json" }
+  });
+};
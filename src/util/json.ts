@@ -0,0 +1,12 @@
+/**
+ * JSON.stringify that renders Buffers as hex and bigints as strings
+ * instead of throwing or producing byte arrays.
+ */
+export const toReadableJson = (data: unknown): string => {
+  return JSON.stringify(data, function (this: Record<string, unknown>, key: string, value: unknown) {
+    const original = this[key];
+    if (Buffer.isBuffer(original)) return original.toString('hex');
+    if (typeof value === 'bigint') return value.toString();
+    return value;
+  });
+}
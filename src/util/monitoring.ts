@@ -2,6 +2,7 @@ import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom
 import winston from 'winston';
 import LokiTransport from 'winston-loki';
 import config from '../config';
+import { traceStorage } from './trace-context';
 
 // Get environment label from env vars
 const environment = process.env.ENVIRONMENT || 'development';
@@ -91,10 +92,112 @@ export const taskDurationTotal = new Histogram({
   registers: [register],
 });
 
+export const peerFailuresTotal = new Counter({
+  name: 'peer_failures_total',
+  help: 'Total number of times a peer failed to take part in a task phase',
+  labelNames: ['plugin_id', 'peer', 'phase'],
+  registers: [register],
+});
+
+export const peerMisbehaviorTotal = new Counter({
+  name: 'peer_misbehavior_total',
+  help: 'Total number of times a peer returned data that was provably wrong, e.g. an invalid signature',
+  labelNames: ['plugin_id', 'peer', 'reason'],
+  registers: [register],
+});
+
+export const latePeerResponsesTotal = new Counter({
+  name: 'late_peer_responses_total',
+  help: 'Total number of peer responses that arrived after the phase deadline and were discarded',
+  labelNames: ['plugin_id', 'peer', 'phase'],
+  registers: [register],
+});
+
+export const taskRetriesTotal = new Counter({
+  name: 'task_retries_total',
+  help: 'Total number of failed task attempts that were retried',
+  labelNames: ['plugin_id', 'error_type'],
+  registers: [register],
+});
+
+export const deadLetteredTasksTotal = new Counter({
+  name: 'dead_lettered_tasks_total',
+  help: 'Total number of tasks moved to the dead-letter queue after exhausting their retries',
+  labelNames: ['plugin_id', 'error_type'],
+  registers: [register],
+});
+
+export const taskQueueDepthGauge = new Gauge({
+  name: 'task_queue_depth',
+  help: 'Number of task attempts waiting in the task queue',
+  labelNames: ['plugin_id', 'priority'],
+  registers: [register],
+});
+
+export const taskQueueWaitTime = new Histogram({
+  name: 'task_queue_wait_seconds',
+  help: 'Time task attempts spent waiting in the task queue',
+  labelNames: ['plugin_id', 'priority'],
+  buckets: [0.01, 0.1, 0.5, 1, 5, 10, 30, 60, 300],
+  registers: [register],
+});
+
+export const runningTasksGauge = new Gauge({
+  name: 'running_tasks',
+  help: 'Number of task attempts currently running',
+  labelNames: ['plugin_id'],
+  registers: [register],
+});
+
+export const batchedTasksTotal = new Counter({
+  name: 'batched_tasks_total',
+  help: 'Total number of tasks submitted as part of a merged batch',
+  labelNames: ['plugin_id'],
+  registers: [register],
+});
+
+export const isLeaderGauge = new Gauge({
+  name: 'is_leader',
+  help: 'Whether this node currently coordinates tasks and runs the listeners',
+  registers: [register],
+});
+
+export const peerHealthScoreGauge = new Gauge({
+  name: 'peer_health_score',
+  help: 'Rolling health score of a peer between 0 and 1',
+  labelNames: ['peer'],
+  registers: [register],
+});
+
+export const peerLatencyGauge = new Gauge({
+  name: 'peer_latency_ms',
+  help: 'Average latency of successful requests to a peer',
+  labelNames: ['peer'],
+  registers: [register],
+});
+
+export const peerErrorRateGauge = new Gauge({
+  name: 'peer_error_rate',
+  help: 'Share of recent requests to a peer that failed',
+  labelNames: ['peer'],
+  registers: [register],
+});
+
+// Tags log lines with the trace and span they were written in
+const traceFormat = winston.format((info) => {
+  const span = traceStorage.getStore();
+  if (span) {
+    info.traceId = span.traceId;
+    info.spanId = span.spanId;
+  }
+  return info;
+});
+
 // Create Winston logger with Loki transport
 export const logger = winston.createLogger({
   level: 'info',
   format: winston.format.combine(
+    traceFormat(),
     winston.format.timestamp(),
     winston.format.json()
   ),
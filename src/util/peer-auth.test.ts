@@ -0,0 +1,83 @@
+import { describe, expect, mock, test } from "bun:test";
+import { randomBytes } from "crypto";
+import { publicKeyCreate } from "secp256k1";
+import type { PeerEnvelope } from "../core/types/requests/PeerEnvelope";
+
+const privateKey = randomBytes(32);
+const publicKey = Buffer.from(publicKeyCreate(privateKey)).toString("hex");
+
+// This node seals envelopes as one of its own configured coordinators, so it can open them as well
+const config = {
+  publicKey,
+  privateKey: privateKey.toString("hex"),
+  peerRequestMaxAgeMs: 30_000,
+  peers: [{ oracleId: "coordinator", publicKey, coordinator: true }],
+};
+mock.module("../config", () => ({ default: config }));
+
+const { openEnvelope, sealEnvelope } = await import("./peer-auth");
+
+const PATH = "/task/prepare";
+
+describe("peer envelopes", () => {
+  test("opens an envelope sealed for the same endpoint", () => {
+    const envelope = sealEnvelope(PATH, { taskId: "task-1" });
+    expect(openEnvelope(PATH, envelope)._unsafeUnwrap().payload).toEqual({ taskId: "task-1" });
+  });
+
+  test("rejects an envelope whose payload was changed", () => {
+    const envelope = sealEnvelope(PATH, { taskId: "task-1" });
+    const result = openEnvelope(PATH, { ...envelope, payload: { taskId: "task-2" } });
+    expect(result._unsafeUnwrapErr().context).toContain("Invalid signature");
+  });
+
+  test("rejects an envelope sealed for another endpoint", () => {
+    const envelope = sealEnvelope("/task/validate", { taskId: "task-1" });
+    expect(openEnvelope(PATH, envelope)._unsafeUnwrapErr().context).toContain("Invalid signature");
+  });
+
+  test("rejects an envelope whose nonce or timestamp was changed", () => {
+    const envelope = sealEnvelope(PATH, { taskId: "task-1" });
+    expect(openEnvelope(PATH, { ...envelope, nonce: "00" })._unsafeUnwrapErr().context).toContain("Invalid signature");
+    expect(openEnvelope(PATH, { ...envelope, timestamp: envelope.timestamp + 1 })._unsafeUnwrapErr().context).toContain("Invalid signature");
+  });
+
+  test("rejects a malformed signature", () => {
+    const envelope = sealEnvelope(PATH, { taskId: "task-1" });
+    expect(openEnvelope(PATH, { ...envelope, signature: "not-hex" })._unsafeUnwrapErr().type).toBe("unauthorized");
+  });
+
+  test("rejects a replayed envelope", () => {
+    const envelope = sealEnvelope(PATH, { taskId: "task-1" });
+    expect(openEnvelope(PATH, envelope).isOk()).toBe(true);
+    expect(openEnvelope(PATH, envelope)._unsafeUnwrapErr().context).toContain("Replayed");
+  });
+
+  test("rejects an envelope outside the accepted time window", () => {
+    const envelope = sealEnvelope(PATH, { taskId: "task-1" });
+    const realNow = Date.now;
+    Date.now = () => realNow() + config.peerRequestMaxAgeMs + 1;
+    try {
+      expect(openEnvelope(PATH, envelope)._unsafeUnwrapErr().context).toContain("time window");
+    } finally {
+      Date.now = realNow;
+    }
+  });
+
+  test("rejects an envelope from a sender that is not a configured coordinator", () => {
+    const envelope = sealEnvelope(PATH, { taskId: "task-1" });
+    const stranger = Buffer.from(publicKeyCreate(randomBytes(32))).toString("hex");
+    expect(openEnvelope(PATH, { ...envelope, sender: stranger })._unsafeUnwrapErr().context).toContain("Unknown sender");
+
+    config.peers[0]!.coordinator = false;
+    try {
+      expect(openEnvelope(PATH, sealEnvelope(PATH, {}))._unsafeUnwrapErr().context).toContain("not allowed to coordinate");
+    } finally {
+      config.peers[0]!.coordinator = true;
+    }
+  });
+
+  test("rejects a request that is not an envelope", () => {
+    expect(openEnvelope(PATH, { taskId: "task-1" } as unknown as PeerEnvelope<unknown>)._unsafeUnwrapErr().type).toBe("unauthorized");
+  });
+});
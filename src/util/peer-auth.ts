@@ -0,0 +1,116 @@
+import { randomBytes } from "crypto";
+import { err, ok, type Result } from "neverthrow";
+import config from "../config";
+import type { PeerEnvelope } from "../core/types/requests/PeerEnvelope";
+import { signData, verifySignature } from "./crypto";
+import { encode } from "./encoder";
+import type { OracleError } from "./errors";
+
+// Nonces seen within the accepted age window, mapped to when they can be forgotten
+const seenNonces = new Map<string, number>();
+
+const signedContent = (path: string, envelope: Omit<PeerEnvelope<unknown>, "signature">) => {
+  return encode({
+    path,
+    sender: envelope.sender,
+    timestamp: envelope.timestamp,
+    nonce: envelope.nonce,
+    payload: envelope.payload
+  });
+}
+
+/**
+ * Wraps a request to another node in an envelope signed with this node's key
+ */
+export const sealEnvelope = <T>(path: string, payload: T): PeerEnvelope<T> => {
+  const envelope = {
+    sender: config.publicKey,
+    timestamp: Date.now(),
+    nonce: randomBytes(16).toString('hex'),
+    payload
+  };
+
+  return { ...envelope, signature: signData(signedContent(path, envelope), config.privateKey) };
+}
+
+/**
+ * Verifies that an envelope was sealed for this endpoint by a configured coordinator,
+ * is recent and has not been seen before.
+ */
+export const openEnvelope = <T>(path: string, envelope: PeerEnvelope<T>): Result<PeerEnvelope<T>, OracleError> => {
+  if (!envelope || typeof envelope.sender !== "string" || typeof envelope.signature !== "string") {
+    return err({ type: "unauthorized", context: "Request is not a signed envelope" });
+  }
+
+  const peer = config.peers.find((p) => p.publicKey.toLowerCase() === envelope.sender.toLowerCase());
+  if (!peer) {
+    return err({ type: "unauthorized", context: `Unknown sender ${envelope.sender}` });
+  }
+
+  if (!peer.coordinator) {
+    return err({ type: "unauthorized", context: `Peer ${peer.oracleId} is not allowed to coordinate tasks` });
+  }
+
+  const age = Math.abs(Date.now() - envelope.timestamp);
+  if (!Number.isFinite(age) || age > config.peerRequestMaxAgeMs) {
+    return err({ type: "unauthorized", context: `Request from ${peer.oracleId} is outside the accepted time window` });
+  }
+
+  let verified = false;
+  try {
+    verified = verifySignature(signedContent(path, envelope), envelope.signature, peer.publicKey);
+  } catch {
+    // Malformed signatures are rejected by secp256k1 with an exception
+  }
+  if (!verified) {
+    return err({ type: "unauthorized", context: `Invalid signature from ${peer.oracleId}` });
+  }
+
+  pruneNonces();
+  const nonceKey = `${peer.publicKey.toLowerCase()}:${envelope.nonce}`;
+  if (seenNonces.has(nonceKey)) {
+    return err({ type: "unauthorized", context: `Replayed request from ${peer.oracleId}` });
+  }
+  // Envelopes are only accepted within the time window, so the nonce can be forgotten once it passed
+  seenNonces.set(nonceKey, Date.now() + 2 * config.peerRequestMaxAgeMs);
+
+  return ok(envelope);
+}
+
+const pruneNonces = () => {
+  const now = Date.now();
+  for (const [nonce, expiresAt] of seenNonces) {
+    if (expiresAt <= now) seenNonces.delete(nonce);
+  }
+}
+
+/**
+ * Scheme used to reach other nodes
+ */
+export const peerProtocol = () => config.peerTls ? "https" : "http";
+
+/**
+ * TLS options for requests to other nodes, presenting this node's certificate for mTLS
+ */
+export const peerClientTls = () => {
+  if (!config.peerTls) return undefined;
+
+  return {
+    cert: Bun.file(config.peerTls.cert),
+    key: Bun.file(config.peerTls.key),
+    ca: config.peerTls.ca ? Bun.file(config.peerTls.ca) : undefined,
+  };
+}
+
+/**
+ * TLS options for the internal server that other nodes connect to
+ */
+export const peerServerTls = () => {
+  if (!config.peerTls) return undefined;
+
+  return {
+    ...peerClientTls(),
+    requestCert: config.peerTls.requireClientCert ?? false,
+    rejectUnauthorized: config.peerTls.requireClientCert ?? false,
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, mock, test } from "bun:test";
+import { randomBytes } from "crypto";
+import { publicKeyCreate } from "secp256k1";
+import type { PreparedDataBinding } from "./prepared-data";
+
+const privateKey = randomBytes(32);
+
+mock.module("../config", () => ({
+  default: {
+    publicKey: Buffer.from(publicKeyCreate(privateKey)).toString("hex"),
+    privateKey: privateKey.toString("hex"),
+  }
+}));
+
+const { signPreparedData, verifyPreparedData } = await import("./prepared-data");
+
+const data = { amount: 10n, recipient: "0xabc" };
+
+const binding = (): PreparedDataBinding => ({
+  pluginId: "erc20",
+  taskId: "task-1",
+  oracleId: "oracle-1",
+  expiresAt: Date.now() + 60_000
+});
+
+describe("verifyPreparedData", () => {
+  test("accepts data this node signed for the same binding", () => {
+    const signed = binding();
+    expect(verifyPreparedData(signed, data, signPreparedData(signed, data)).isOk()).toBe(true);
+  });
+
+  test("rejects an expired signature", () => {
+    const signed = { ...binding(), expiresAt: Date.now() - 1 };
+    expect(verifyPreparedData(signed, data, signPreparedData(signed, data))._unsafeUnwrapErr().context).toContain("expired");
+  });
+
+  test("rejects a missing expiry", () => {
+    const signed = { ...binding(), expiresAt: NaN };
+    expect(verifyPreparedData(signed, data, signPreparedData(signed, data))._unsafeUnwrapErr().context).toContain("expired");
+  });
+
+  test("rejects a signature presented for another plugin, task or oracle", () => {
+    const signed = binding();
+    const signature = signPreparedData(signed, data);
+
+    for (const changed of [{ pluginId: "erc721" }, { taskId: "task-2" }, { oracleId: "oracle-2" }]) {
+      const result = verifyPreparedData({ ...signed, ...changed }, data, signature);
+      expect(result._unsafeUnwrapErr().context).toContain("Invalid prepared data signature");
+    }
+  });
+
+  test("rejects a signature presented with a later expiry", () => {
+    const signed = binding();
+    const result = verifyPreparedData({ ...signed, expiresAt: signed.expiresAt + 1 }, data, signPreparedData(signed, data));
+    expect(result._unsafeUnwrapErr().type).toBe("validation_error");
+  });
+
+  test("rejects changed data", () => {
+    const signed = binding();
+    const result = verifyPreparedData(signed, { ...data, amount: 11n }, signPreparedData(signed, data));
+    expect(result._unsafeUnwrapErr().type).toBe("validation_error");
+  });
+
+  test("rejects a malformed signature", () => {
+    expect(verifyPreparedData(binding(), data, "not-hex")._unsafeUnwrapErr().type).toBe("validation_error");
+  });
+});
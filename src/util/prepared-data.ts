@@ -0,0 +1,56 @@
+import { err, ok, type Result } from "neverthrow";
+import config from "../config";
+import { signData, verifySignature } from "./crypto";
+import { encode } from "./encoder";
+import type { OracleError } from "./errors";
+
+// Keeps prepared data signatures from being valid as signatures over anything else
+const PREPARED_DATA_DOMAIN = "megaforwarder/prepared-data/v1";
+
+/**
+ * Context a prepared data signature is bound to
+ */
+export type PreparedDataBinding = {
+  pluginId: string;
+  taskId: string;
+  /** Oracle id of the node that prepared the data */
+  oracleId: string;
+  /** Milliseconds since epoch after which the signature is no longer accepted */
+  expiresAt: number;
+};
+
+const signedContent = (binding: PreparedDataBinding, data: unknown) => {
+  return encode({
+    domain: PREPARED_DATA_DOMAIN,
+    pluginId: binding.pluginId,
+    taskId: binding.taskId,
+    oracleId: binding.oracleId,
+    expiresAt: binding.expiresAt,
+    data
+  });
+}
+
+export const signPreparedData = (binding: PreparedDataBinding, data: unknown): string => {
+  return signData(signedContent(binding, data), config.privateKey);
+}
+
+/**
+ * Checks that this node signed the prepared data for exactly this plugin and task, and that the signature has not expired
+ */
+export const verifyPreparedData = (binding: PreparedDataBinding, data: unknown, signature: string): Result<void, OracleError> => {
+  if (!Number.isFinite(binding.expiresAt) || binding.expiresAt <= Date.now()) {
+    return err({ type: "validation_error", context: `Prepared data of task ${binding.taskId} expired` });
+  }
+
+  let verified = false;
+  try {
+    verified = verifySignature(signedContent(binding, data), signature, config.publicKey);
+  } catch {
+    // Malformed signatures are rejected by secp256k1 with an exception
+  }
+  if (!verified) {
+    return err({ type: "validation_error", context: `Invalid prepared data signature for task ${binding.taskId}` });
+  }
+
+  return ok();
+}
@@ -0,0 +1,13 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+export type SpanContext = {
+  /** 16 bytes, hex encoded */
+  traceId: string;
+  /** 8 bytes, hex encoded */
+  spanId: string;
+};
+
+/**
+ * Span the current code runs in, every log line written within it carries its ids
+ */
+export const traceStorage = new AsyncLocalStorage<SpanContext>();
@@ -0,0 +1,198 @@
+import { randomBytes } from "crypto";
+import { appendFile } from "fs/promises";
+import { Err } from "neverthrow";
+import config from "../config";
+import type { OracleError } from "./errors";
+import { logger } from "./monitoring";
+import { traceStorage, type SpanContext } from "./trace-context";
+
+type SpanKind = "internal" | "server" | "client";
+type AttributeValue = string | number | boolean;
+
+type SpanOptions = {
+  kind?: SpanKind;
+  /** Defaults to the span the caller runs in, a span without parent starts a new trace */
+  parent?: SpanContext;
+  attributes?: Record<string, AttributeValue>;
+};
+
+// Span as exported in the OTLP JSON encoding
+type OtlpSpan = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: { key: string; value: { stringValue?: string; intValue?: string; doubleValue?: number; boolValue?: boolean } }[];
+  status: { code: number; message?: string };
+};
+
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_OK = 1;
+const OTLP_STATUS_ERROR = 2;
+
+const DEFAULT_EXPORT_INTERVAL_MS = 5000;
+// Spans beyond this are dropped while the collector is unreachable
+const MAX_PENDING_SPANS = 10_000;
+
+const TRACEPARENT_HEADER = "traceparent";
+
+let pendingSpans: OtlpSpan[] = [];
+
+const nowUnixNano = (): bigint => BigInt(Math.round((performance.timeOrigin + performance.now()) * 1e6));
+
+export class Span {
+  readonly context: SpanContext;
+  private readonly parentSpanId?: string;
+  private readonly startTime = nowUnixNano();
+  private readonly attributes: Record<string, AttributeValue>;
+  private ended = false;
+
+  constructor(readonly name: string, private readonly kind: SpanKind, parent: SpanContext | undefined, attributes: Record<string, AttributeValue>) {
+    this.context = {
+      traceId: parent?.traceId ?? randomBytes(16).toString("hex"),
+      spanId: randomBytes(8).toString("hex")
+    };
+    this.parentSpanId = parent?.spanId;
+    this.attributes = { ...attributes };
+  }
+
+  setAttribute(key: string, value: AttributeValue) {
+    this.attributes[key] = value;
+  }
+
+  /**
+   * Finishes the span and queues it for export, marking it failed when an error is given
+   */
+  end(error?: OracleError) {
+    if (this.ended) return;
+    this.ended = true;
+
+    if (error) {
+      this.attributes["error.type"] = error.type;
+    }
+
+    if (!config.tracing?.collectorUrl && !config.tracing?.filePath) return;
+
+    if (pendingSpans.length >= MAX_PENDING_SPANS) {
+      pendingSpans.shift();
+    }
+    pendingSpans.push({
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: OTLP_SPAN_KINDS[this.kind],
+      startTimeUnixNano: this.startTime.toString(),
+      endTimeUnixNano: nowUnixNano().toString(),
+      attributes: Object.entries(this.attributes).map(([key, value]) => ({ key, value: toAttributeValue(value) })),
+      status: error ? { code: OTLP_STATUS_ERROR, message: error.context ?? error.type } : { code: OTLP_STATUS_OK }
+    });
+  }
+}
+
+const toAttributeValue = (value: AttributeValue): OtlpSpan["attributes"][number]["value"] => {
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") return Number.isInteger(value) ? { intValue: value.toString() } : { doubleValue: value };
+  return { stringValue: value };
+}
+
+export const startSpan = (name: string, options: SpanOptions = {}): Span => {
+  return new Span(name, options.kind ?? "internal", options.parent ?? traceStorage.getStore(), options.attributes ?? {});
+}
+
+/**
+ * Runs `fn` within a new span, so that log lines, peer requests and nested spans are attributed to it.
+ * The span fails when `fn` returns an `Err` or throws.
+ */
+export const withSpan = async <R>(name: string, options: SpanOptions, fn: (span: Span) => Promise<R>): Promise<R> => {
+  const span = startSpan(name, options);
+  try {
+    const result = await traceStorage.run(span.context, () => fn(span));
+    span.end(result instanceof Err ? result.error as OracleError : undefined);
+    return result;
+  } catch (error) {
+    span.end({ type: "plugin_error", context: String(error) });
+    throw error;
+  }
+}
+
+/**
+ * W3C trace context headers propagating the current span to a peer
+ */
+export const traceHeaders = (): Record<string, string> => {
+  const span = traceStorage.getStore();
+  return span ? { [TRACEPARENT_HEADER]: `00-${span.traceId}-${span.spanId}-01` } : {};
+}
+
+const parseTraceparent = (header: string | null): SpanContext | undefined => {
+  const match = header?.match(/^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/);
+  return match ? { traceId: match[1]!, spanId: match[2]! } : undefined;
+}
+
+/**
+ * Handles a request from another node within a span continuing the trace of the sender
+ */
+export const withRequestSpan = async (req: Request, handler: (req: Request) => Promise<Response>): Promise<Response> => {
+  const path = new URL(req.url).pathname;
+  return withSpan(`${req.method} ${path}`, {
+    kind: "server",
+    parent: parseTraceparent(req.headers.get(TRACEPARENT_HEADER)),
+    attributes: { "http.method": req.method, "http.route": path, "oracle.id": config.id }
+  }, async (span) => {
+    const response = await handler(req);
+    span.setAttribute("http.status_code", response.status);
+    return response;
+  });
+}
+
+/**
+ * Periodically exports finished spans to the configured collector and/or file
+ */
+export const startTraceExport = () => {
+  if (!config.tracing?.collectorUrl && !config.tracing?.filePath) return;
+
+  setInterval(() => {
+    exportSpans().catch((error) => {
+      logger.error("Failed to export spans", { error });
+    });
+  }, config.tracing.exportIntervalMs ?? DEFAULT_EXPORT_INTERVAL_MS);
+}
+
+const exportSpans = async () => {
+  if (pendingSpans.length === 0) return;
+
+  const spans = pendingSpans;
+  pendingSpans = [];
+
+  const request = {
+    resourceSpans: [{
+      resource: {
+        attributes: [
+          { key: "service.name", value: { stringValue: "decentralized-oracle" } },
+          { key: "service.instance.id", value: { stringValue: config.id } }
+        ]
+      },
+      scopeSpans: [{ scope: { name: "megaforwarder" }, spans }]
+    }]
+  };
+  const body = JSON.stringify(request);
+
+  if (config.tracing?.filePath) {
+    await appendFile(config.tracing.filePath, body + "\n");
+  }
+
+  if (config.tracing?.collectorUrl) {
+    const response = await fetch(config.tracing.collectorUrl, {
+      method: "POST",
+      body,
+      headers: { "Content-Type": "application/json" },
+      signal: AbortSignal.timeout(config.tracing.exportIntervalMs ?? DEFAULT_EXPORT_INTERVAL_MS)
+    });
+    if (!response.ok) {
+      logger.warn(`Trace collector rejected ${spans.length} spans with status ${response.status}`);
+    }
+  }
+}
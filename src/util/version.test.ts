@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import { PROTOCOL_VERSION } from "./constants";
+import { checkVersions, localVersions } from "./version";
+
+const local = localVersions("2.1.0");
+
+describe("checkVersions", () => {
+  test("accepts the same plugin version", () => {
+    expect(checkVersions("erc20", local, local).isOk()).toBe(true);
+  });
+
+  test("accepts a plugin version that only differs in its minor or patch version", () => {
+    expect(checkVersions("erc20", local, { ...local, pluginVersion: "2.0.0" }).isOk()).toBe(true);
+    expect(checkVersions("erc20", local, { ...local, pluginVersion: "2.1.7" }).isOk()).toBe(true);
+  });
+
+  test("rejects another major plugin version", () => {
+    for (const pluginVersion of ["1.1.0", "3.0.0"]) {
+      const error = checkVersions("erc20", local, { ...local, pluginVersion })._unsafeUnwrapErr();
+      expect(error.type).toBe("version_mismatch");
+      expect(error.context).toContain(`Plugin erc20 version ${pluginVersion}`);
+    }
+  });
+
+  test("rejects a peer that does not report its plugin version", () => {
+    const error = checkVersions("erc20", local, { protocolVersion: PROTOCOL_VERSION })._unsafeUnwrapErr();
+    expect(error.context).toContain("version unknown");
+  });
+
+  test("rejects any other protocol version, even with the same plugin version", () => {
+    for (const protocolVersion of [PROTOCOL_VERSION - 1, PROTOCOL_VERSION + 1]) {
+      const error = checkVersions("erc20", local, { ...local, protocolVersion })._unsafeUnwrapErr();
+      expect(error.type).toBe("version_mismatch");
+      expect(error.context).toContain(`Protocol version ${protocolVersion}`);
+    }
+  });
+
+  test("rejects a peer that does not report its protocol version, e.g. one predating it", () => {
+    const error = checkVersions("erc20", local, { pluginVersion: local.pluginVersion })._unsafeUnwrapErr();
+    expect(error.context).toContain("Protocol version unknown");
+  });
+});
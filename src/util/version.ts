@@ -0,0 +1,37 @@
+import { err, ok, type Result } from "neverthrow";
+import { PROTOCOL_VERSION } from "./constants";
+import type { OracleError } from "./errors";
+
+export type Versions = {
+  protocolVersion: number;
+  pluginVersion: string;
+};
+
+export const localVersions = (pluginVersion: string): Versions => ({
+  protocolVersion: PROTOCOL_VERSION,
+  pluginVersion
+});
+
+/**
+ * Nodes have to speak the same protocol version and run the same major version of a plugin.
+ * Plugin changes that affect the transaction it builds therefore require a major version bump.
+ */
+export const checkVersions = (pluginId: string, local: Versions, remote: Partial<Versions>): Result<void, OracleError> => {
+  if (remote.protocolVersion !== local.protocolVersion) {
+    return err({
+      type: "version_mismatch",
+      context: `Protocol version ${remote.protocolVersion ?? "unknown"} is incompatible with ${local.protocolVersion}`
+    });
+  }
+
+  if (majorVersion(remote.pluginVersion) !== majorVersion(local.pluginVersion)) {
+    return err({
+      type: "version_mismatch",
+      context: `Plugin ${pluginId} version ${remote.pluginVersion ?? "unknown"} is incompatible with ${local.pluginVersion}`
+    });
+  }
+
+  return ok();
+}
+
+const majorVersion = (version: string | undefined) => version?.split(".")[0];